@@ -0,0 +1,182 @@
+// Collector configuration shared by the client tracker and the server middleware
+// Domain: Where events are sent and how the transport behaves
+
+import type { BeforeSendHook } from './before-send';
+import type { IdentityCookieConfig } from './cookie-storage';
+import { resolveScrubConfig, type ResolvedScrubConfig, type ScrubConfig } from './pii-scrubber';
+import type { Transport } from './transport';
+
+export type EventChannel = 'human' | 'performance' | 'bot';
+export type CollectorEndpoint = EventChannel | 'batch';
+
+/**
+ * Client-side batching of human and performance events
+ * Disabled unless enabled is set; the collector must accept EventBatch payloads
+ */
+export interface BatchConfig {
+  enabled?: boolean;
+  maxSize?: number;
+  flushIntervalMs?: number;
+}
+
+/**
+ * Persistent retry of client events that failed to send
+ * Enabled by default; entries expire after maxAgeMs and the queue is capped at maxQueueSize
+ */
+export interface RetryConfig {
+  enabled?: boolean;
+  maxAgeMs?: number;
+  maxQueueSize?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Configuration accepted by VisitorTracker and setupAnalyticsMiddleware
+ * All fields are optional - omitted fields fall back to the hosted collector
+ */
+export interface AnalyticsConfig {
+  baseUrl?: string;
+  endpoints?: Partial<Record<CollectorEndpoint, string>>;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  batch?: BatchConfig;
+  retry?: RetryConfig;
+  transport?: Transport; // Replaces the built-in fetch/beacon network layer
+  beforeSend?: BeforeSendHook | BeforeSendHook[];
+  beforeSendTimeoutMs?: number; // Per async step
+  scrub?: boolean | ScrubConfig; // PII scrubbing - enabled by default
+  identityCookie?: IdentityCookieConfig; // Share visitor and session ids across subdomains
+}
+
+/**
+ * Fully populated configuration used internally by the send layer
+ */
+export interface ResolvedAnalyticsConfig {
+  baseUrl: string;
+  endpoints: Record<CollectorEndpoint, string>;
+  timeoutMs: number;
+  headers: Record<string, string>;
+  batch: Required<BatchConfig>;
+  retry: Required<RetryConfig>;
+  transport: Transport | null; // null selects the built-in fetch/beacon transports
+  beforeSend: BeforeSendHook[];
+  beforeSendTimeoutMs: number;
+  scrub: ResolvedScrubConfig | null; // null disables scrubbing
+}
+
+export const DEFAULT_ANALYTICS_CONFIG: ResolvedAnalyticsConfig = {
+  baseUrl: 'https://analytics.jillen.com',
+  endpoints: {
+    human: '/api/human',
+    performance: '/api/perf',
+    bot: '/api/bot',
+    batch: '/api/batch',
+  },
+  timeoutMs: 30000,
+  headers: {},
+  batch: {
+    enabled: false,
+    maxSize: 20,
+    flushIntervalMs: 5000,
+  },
+  retry: {
+    enabled: true,
+    maxAgeMs: 24 * 60 * 60 * 1000,
+    maxQueueSize: 100,
+    baseDelayMs: 2000,
+    maxDelayMs: 5 * 60 * 1000,
+  },
+  transport: null,
+  beforeSend: [],
+  beforeSendTimeoutMs: 1000,
+  scrub: resolveScrubConfig(),
+};
+
+// Lower bounds for retry settings: a zero delay would retry in a tight loop, and entries
+// that expire before their first retry would never be sent
+const MIN_RETRY_DELAY_MS = 100;
+const MIN_RETRY_AGE_MS = 60 * 1000;
+
+export function resolveAnalyticsConfig(config?: AnalyticsConfig): ResolvedAnalyticsConfig {
+  if (!config) {
+    return DEFAULT_ANALYTICS_CONFIG;
+  }
+
+  const timeoutMs =
+    typeof config.timeoutMs === 'number' && config.timeoutMs > 0
+      ? config.timeoutMs
+      : DEFAULT_ANALYTICS_CONFIG.timeoutMs;
+
+  const retryBaseDelayMs = Math.max(
+    MIN_RETRY_DELAY_MS,
+    config.retry?.baseDelayMs ?? DEFAULT_ANALYTICS_CONFIG.retry.baseDelayMs
+  );
+
+  return {
+    baseUrl: (config.baseUrl || DEFAULT_ANALYTICS_CONFIG.baseUrl).replace(/\/+$/, ''),
+    // Field by field, so an explicitly undefined field keeps its default
+    endpoints: {
+      human: config.endpoints?.human ?? DEFAULT_ANALYTICS_CONFIG.endpoints.human,
+      performance: config.endpoints?.performance ?? DEFAULT_ANALYTICS_CONFIG.endpoints.performance,
+      bot: config.endpoints?.bot ?? DEFAULT_ANALYTICS_CONFIG.endpoints.bot,
+      batch: config.endpoints?.batch ?? DEFAULT_ANALYTICS_CONFIG.endpoints.batch,
+    },
+    timeoutMs,
+    headers: {
+      ...DEFAULT_ANALYTICS_CONFIG.headers,
+      ...config.headers,
+    },
+    batch: {
+      enabled: config.batch?.enabled ?? DEFAULT_ANALYTICS_CONFIG.batch.enabled,
+      maxSize: Math.max(1, config.batch?.maxSize ?? DEFAULT_ANALYTICS_CONFIG.batch.maxSize),
+      flushIntervalMs: Math.max(
+        0,
+        config.batch?.flushIntervalMs ?? DEFAULT_ANALYTICS_CONFIG.batch.flushIntervalMs
+      ),
+    },
+    retry: {
+      enabled: config.retry?.enabled ?? DEFAULT_ANALYTICS_CONFIG.retry.enabled,
+      maxAgeMs: Math.max(
+        MIN_RETRY_AGE_MS,
+        config.retry?.maxAgeMs ?? DEFAULT_ANALYTICS_CONFIG.retry.maxAgeMs
+      ),
+      maxQueueSize: Math.max(
+        1,
+        config.retry?.maxQueueSize ?? DEFAULT_ANALYTICS_CONFIG.retry.maxQueueSize
+      ),
+      baseDelayMs: retryBaseDelayMs,
+      maxDelayMs: Math.max(
+        retryBaseDelayMs,
+        config.retry?.maxDelayMs ?? DEFAULT_ANALYTICS_CONFIG.retry.maxDelayMs
+      ),
+    },
+    transport: config.transport ?? null,
+    beforeSend: config.beforeSend
+      ? Array.isArray(config.beforeSend)
+        ? config.beforeSend
+        : [config.beforeSend]
+      : [],
+    beforeSendTimeoutMs:
+      typeof config.beforeSendTimeoutMs === 'number' && config.beforeSendTimeoutMs > 0
+        ? config.beforeSendTimeoutMs
+        : DEFAULT_ANALYTICS_CONFIG.beforeSendTimeoutMs,
+    scrub: config.scrub === undefined ? DEFAULT_ANALYTICS_CONFIG.scrub : resolveScrubConfig(config.scrub),
+  };
+}
+
+/**
+ * Build the absolute collector URL for a channel
+ * Endpoints given as absolute URLs are used as-is
+ */
+export function getEndpointUrl(
+  config: ResolvedAnalyticsConfig,
+  channel: CollectorEndpoint
+): string {
+  const endpoint = config.endpoints[channel];
+  if (/^https?:\/\//i.test(endpoint)) {
+    return endpoint;
+  }
+
+  return `${config.baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+}
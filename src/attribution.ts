@@ -0,0 +1,90 @@
+import type { BaseHumanEvent, CampaignParameters, TouchAttribution } from "./event-types";
+import { getSessionItem, setSessionItem } from "./session-store";
+import { AnalyticsStorage } from "./storage-utils";
+
+export const CAMPAIGN_PARAMETERS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+  "gclid",
+  "fbclid",
+] as const;
+
+const MAX_PARAMETER_LENGTH = 256;
+
+// First touch is never overwritten, last touch is replaced by every new campaign visit
+const FIRST_TOUCH_KEY = "attribution_first_touch";
+const LAST_TOUCH_KEY = "attribution_last_touch";
+const ATTRIBUTION_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+/**
+ * Read campaign parameters from a query string
+ * Keys are matched case-insensitively; empty values are ignored
+ */
+export function parseCampaignParameters(search: string): CampaignParameters {
+  const campaign: CampaignParameters = {};
+
+  try {
+    const params = new URLSearchParams(search);
+
+    params.forEach((rawValue, rawKey) => {
+      const key = rawKey.toLowerCase() as (typeof CAMPAIGN_PARAMETERS)[number];
+      if (!CAMPAIGN_PARAMETERS.includes(key) || campaign[key]) return;
+
+      const value = rawValue.trim().substring(0, MAX_PARAMETER_LENGTH);
+      if (value) {
+        campaign[key] = value;
+      }
+    });
+  } catch {
+    // Malformed query strings carry no attribution
+  }
+
+  return campaign;
+}
+
+function recordTouch(campaign: CampaignParameters, landingPath: string): void {
+  const touch: TouchAttribution = {
+    ...campaign,
+    landing_path: landingPath,
+    touched_at: new Date().toISOString(),
+  };
+
+  if (!AnalyticsStorage.getItem<TouchAttribution>(FIRST_TOUCH_KEY)) {
+    AnalyticsStorage.setItem(FIRST_TOUCH_KEY, touch, ATTRIBUTION_TTL_MS);
+  }
+  AnalyticsStorage.setItem(LAST_TOUCH_KEY, touch, ATTRIBUTION_TTL_MS);
+}
+
+/**
+ * Campaign parameters for the session, captured from the URL the session started on
+ * Persisted per session so later page views without a query string keep them
+ */
+export function getSessionCampaign(sessionId: string, landingPath: string): CampaignParameters {
+  if (typeof window === "undefined") return {};
+
+  const storageKey = `campaign_${sessionId}`;
+  const stored = getSessionItem<CampaignParameters>(storageKey);
+  if (stored) return stored;
+
+  const campaign = parseCampaignParameters(window.location.search);
+  setSessionItem(storageKey, campaign);
+
+  if (Object.keys(campaign).length > 0) {
+    recordTouch(campaign, landingPath);
+  }
+
+  return campaign;
+}
+
+/**
+ * First-touch and last-touch campaign visits for crediting conversions
+ */
+export function getTouchAttribution(): Pick<BaseHumanEvent, "first_touch" | "last_touch"> {
+  return {
+    first_touch: AnalyticsStorage.getItem<TouchAttribution>(FIRST_TOUCH_KEY) ?? undefined,
+    last_touch: AnalyticsStorage.getItem<TouchAttribution>(LAST_TOUCH_KEY) ?? undefined,
+  };
+}
@@ -0,0 +1,75 @@
+import type { EventChannel } from "./analytics-config";
+import type { BaseHumanEvent, BotEvent, PerformanceEvent } from "./event-types";
+
+export type OutgoingEvent = BaseHumanEvent | PerformanceEvent | BotEvent;
+
+export interface BeforeSendContext {
+  channel: EventChannel;
+}
+
+/**
+ * A single step in the beforeSend chain
+ * Return the (possibly modified) event to continue, or null to drop it
+ * Use context.channel or the isHumanEvent / isPerformanceEvent / isBotEvent guards to narrow the event
+ */
+export type BeforeSendHook = (
+  event: OutgoingEvent,
+  context: BeforeSendContext
+) => OutgoingEvent | null | Promise<OutgoingEvent | null>;
+
+const HOOK_TIMEOUT = Symbol("beforeSendTimeout");
+
+/**
+ * Run the beforeSend chain in order
+ * A step that throws or exceeds timeoutMs is skipped and the event continues unchanged,
+ * so a faulty hook never blocks delivery or breaks the application
+ */
+export async function applyBeforeSend<E extends OutgoingEvent>(
+  event: E,
+  channel: EventChannel,
+  hooks: BeforeSendHook[],
+  timeoutMs: number
+): Promise<E | null> {
+  let current: E = event;
+
+  for (let index = 0; index < hooks.length; index++) {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const result = hooks[index](current, { channel });
+      const next = isPromiseLike(result)
+        ? await Promise.race([
+            result,
+            new Promise<typeof HOOK_TIMEOUT>((resolve) => {
+              timeoutId = setTimeout(() => resolve(HOOK_TIMEOUT), timeoutMs);
+            }),
+          ])
+        : result;
+
+      if (next === HOOK_TIMEOUT) {
+        console.warn(
+          `[Analytics] beforeSend hook #${index + 1} timed out after ${timeoutMs}ms - skipped`
+        );
+        continue;
+      }
+
+      if (next === null) {
+        return null;
+      }
+
+      current = next as E;
+    } catch (error) {
+      console.error(`[Analytics] beforeSend hook #${index + 1} failed - skipped:`, error);
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
+
+  return current;
+}
+
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as Promise<T> | null)?.then === "function";
+}
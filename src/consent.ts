@@ -0,0 +1,151 @@
+import { clearIdentityCookies } from "./cookie-storage";
+import { purgeAnalyticsStorage, setStoragePersistence } from "./storage-utils";
+
+export type ConsentCategory = "analytics" | "performance";
+export type ConsentStatus = "pending" | "granted" | "denied";
+export type ConsentState = Record<ConsentCategory, ConsentStatus>;
+
+/**
+ * Consent mode for VisitorTracker
+ * While a category is pending its events are held in memory and nothing is written to storage
+ */
+export interface ConsentConfig {
+  required?: boolean; // Wait for setConsent() before sending (default: true)
+  defaultState?: Partial<ConsentState>; // Initial state; overrides `required`
+  respectDoNotTrack?: boolean; // Default: true
+  respectGlobalPrivacyControl?: boolean; // Default: true
+  maxBufferedEvents?: number; // Default: 100
+}
+
+export type ConsentListener = (state: ConsentState, previous: ConsentState) => void;
+
+interface BufferedSend {
+  category: ConsentCategory;
+  replay: () => Promise<void>;
+}
+
+const CONSENT_CATEGORIES: ConsentCategory[] = ["analytics", "performance"];
+const DEFAULT_MAX_BUFFERED_EVENTS = 100;
+
+let consentConfig: ConsentConfig | undefined;
+let consentState: ConsentState | null = null;
+// Choices recorded through setConsent() outrank defaults and browser privacy signals
+let explicitChoices: Partial<ConsentState> = {};
+let bufferedSends: BufferedSend[] = [];
+const listeners = new Set<ConsentListener>();
+
+function hasPrivacySignal(config?: ConsentConfig): boolean {
+  if (typeof navigator === "undefined") return false;
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = typeof window !== "undefined" ? (window as Window & { doNotTrack?: string }) : null;
+
+  const doNotTrack =
+    config?.respectDoNotTrack !== false &&
+    (nav.doNotTrack === "1" || nav.doNotTrack === "yes" || win?.doNotTrack === "1");
+  const globalPrivacyControl =
+    config?.respectGlobalPrivacyControl !== false && nav.globalPrivacyControl === true;
+
+  return doNotTrack || globalPrivacyControl;
+}
+
+function resolveConsentState(config?: ConsentConfig): ConsentState {
+  const initial: ConsentStatus = config && config.required !== false ? "pending" : "granted";
+  const signalled = hasPrivacySignal(config);
+
+  const state = {} as ConsentState;
+  for (const category of CONSENT_CATEGORIES) {
+    state[category] =
+      explicitChoices[category] ??
+      (signalled ? "denied" : config?.defaultState?.[category] ?? initial);
+  }
+  return state;
+}
+
+function applyConsentState(next: ConsentState): void {
+  // Nothing has been decided before the first resolution
+  const previous = consentState ?? { analytics: "pending", performance: "pending" };
+  consentState = next;
+
+  // Identifiers may only be persisted once analytics consent is granted
+  setStoragePersistence(next.analytics === "granted");
+  if (next.analytics === "denied" && previous.analytics !== "denied") {
+    purgeAnalyticsStorage();
+    clearIdentityCookies();
+  }
+
+  const held = bufferedSends;
+  bufferedSends = held.filter((entry) => next[entry.category] === "pending");
+  for (const entry of held) {
+    if (next[entry.category] === "granted") {
+      void entry.replay();
+    }
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(next, previous);
+    } catch (error) {
+      console.error("[Analytics] Error in consent listener:", error);
+    }
+  });
+}
+
+function getConsentState(): ConsentState {
+  if (!consentState) {
+    applyConsentState(resolveConsentState(consentConfig));
+  }
+  return consentState as ConsentState;
+}
+
+/**
+ * Apply the tracker's consent configuration
+ * Without one, tracking is allowed unless Do Not Track or Global Privacy Control is set
+ */
+export function configureConsent(config?: ConsentConfig): void {
+  consentConfig = config;
+  applyConsentState(resolveConsentState(config));
+}
+
+/**
+ * Record the visitor's consent choice, e.g. from a cookie banner
+ * Granting sends the events held so far; denying drops them and purges analytics storage
+ */
+export function setConsent(update: Partial<ConsentState>): void {
+  try {
+    explicitChoices = { ...explicitChoices, ...update };
+    applyConsentState({ ...getConsentState(), ...update });
+  } catch (error) {
+    console.error("[Analytics] Error updating consent:", error);
+  }
+}
+
+export function getConsent(): ConsentState {
+  return { ...getConsentState() };
+}
+
+export function getConsentStatus(category: ConsentCategory): ConsentStatus {
+  return getConsentState()[category];
+}
+
+export function onConsentChange(listener: ConsentListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Hold a send until its category is granted (in memory only, oldest dropped first)
+ */
+export function bufferUntilConsent(category: ConsentCategory, replay: () => Promise<void>): void {
+  bufferedSends.push({ category, replay });
+
+  const maxBufferedEvents = Math.max(
+    0,
+    consentConfig?.maxBufferedEvents ?? DEFAULT_MAX_BUFFERED_EVENTS
+  );
+  if (bufferedSends.length > maxBufferedEvents) {
+    bufferedSends = bufferedSends.slice(bufferedSends.length - maxBufferedEvents);
+  }
+}
@@ -0,0 +1,189 @@
+import type { SessionData } from "./session-store";
+import { isStoragePersistent } from "./storage-utils";
+
+/**
+ * First-party cookies holding the anonymous visitor id and the session
+ * Web storage is per origin; cookies set on the registrable domain (e.g. ".example.com")
+ * are shared by app., docs. and www., so they see one visitor and one session
+ */
+export interface IdentityCookieConfig {
+  domain?: string;                       // Default: the current host only
+  sameSite?: "Lax" | "Strict" | "None";  // Default: "Lax"
+  maxAgeDays?: number;                   // Visitor cookie lifetime - default 365
+  secure?: boolean;                      // Default: true on https and with SameSite=None
+  name?: string;                         // Visitor cookie name - default "analytics_vid"
+}
+
+export interface ResolvedIdentityCookieConfig {
+  domain: string | null;
+  sameSite: "Lax" | "Strict" | "None";
+  maxAgeSeconds: number;
+  secure: boolean;
+  visitorCookie: string;
+  sessionCookie: string;
+}
+
+// Request header carrying the visitor id the middleware read or issued
+export const VISITOR_ID_HEADER = "x-analytics-visitor-id";
+
+// Session cookies outlive the inactivity timeout like the stored session; its
+// last_activity decides whether the session is still active
+const SESSION_COOKIE_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+const VISITOR_ID_PATTERN = /^[0-9a-z]{16,64}$/;
+
+let cookieConfig: ResolvedIdentityCookieConfig | null = null;
+
+export function resolveIdentityCookieConfig(
+  config: IdentityCookieConfig,
+  isHttps: boolean
+): ResolvedIdentityCookieConfig {
+  const sameSite = config.sameSite ?? "Lax";
+  const visitorCookie = config.name ?? "analytics_vid";
+
+  return {
+    domain: config.domain ?? null,
+    sameSite,
+    maxAgeSeconds: Math.round((config.maxAgeDays ?? 365) * 24 * 60 * 60),
+    // Browsers reject SameSite=None cookies without Secure
+    secure: sameSite === "None" || (config.secure ?? isHttps),
+    visitorCookie,
+    sessionCookie: `${visitorCookie}_session`,
+  };
+}
+
+/**
+ * Set-Cookie / document.cookie string; a max age of 0 deletes the cookie
+ * Not HttpOnly, since the client tracker reads the ids the middleware issues
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  config: ResolvedIdentityCookieConfig,
+  maxAgeSeconds: number
+): string {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    "Path=/",
+    config.domain ? `Domain=${config.domain}` : null,
+    `Max-Age=${maxAgeSeconds}`,
+    `SameSite=${config.sameSite}`,
+    config.secure ? "Secure" : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+export function parseCookie(cookieHeader: string, name: string): string | null {
+  for (const part of cookieHeader.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1 || part.substring(0, separator).trim() !== name) continue;
+
+    try {
+      return decodeURIComponent(part.substring(separator + 1).trim());
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+export function isValidVisitorId(value: string | null | undefined): value is string {
+  return typeof value === "string" && VISITOR_ID_PATTERN.test(value);
+}
+
+/**
+ * Enable the cookie-backed identity store on the client, or disable it with undefined
+ */
+export function configureIdentityCookie(config?: IdentityCookieConfig): void {
+  cookieConfig =
+    config && typeof window !== "undefined"
+      ? resolveIdentityCookieConfig(config, window.location.protocol === "https:")
+      : null;
+}
+
+function readCookie(name: string): string | null {
+  try {
+    return parseCookie(document.cookie, name);
+  } catch {
+    return null;
+  }
+}
+
+// Cookies follow the same rules as local storage: nothing is written before consent
+// or in cookieless mode
+function writeCookie(name: string, value: string, maxAgeSeconds: number): void {
+  if (!cookieConfig || !isStoragePersistent()) return;
+
+  try {
+    document.cookie = serializeCookie(name, value, cookieConfig, maxAgeSeconds);
+  } catch (error) {
+    console.warn("[Analytics] Failed to write identity cookie:", error);
+  }
+}
+
+export function readVisitorCookie(): string | null {
+  if (!cookieConfig) return null;
+
+  const visitorId = readCookie(cookieConfig.visitorCookie);
+  return isValidVisitorId(visitorId) ? visitorId : null;
+}
+
+export function writeVisitorCookie(visitorId: string): void {
+  if (!cookieConfig || readCookie(cookieConfig.visitorCookie) === visitorId) return;
+  writeCookie(cookieConfig.visitorCookie, visitorId, cookieConfig.maxAgeSeconds);
+}
+
+/**
+ * Session cookie value: "<session_id>.<last_activity>.<started_at>" with millisecond timestamps
+ */
+export function readSessionCookie(): SessionData | null {
+  if (!cookieConfig) return null;
+
+  const value = readCookie(cookieConfig.sessionCookie);
+  const [sessionId, lastActivity, startedAt] = value?.split(".") ?? [];
+  if (!sessionId || !Number(lastActivity)) return null;
+
+  return {
+    session_id: sessionId,
+    last_activity: Number(lastActivity),
+    started_at: Number(startedAt) ? new Date(Number(startedAt)).toISOString() : undefined,
+  };
+}
+
+export function writeSessionCookie(session: SessionData): void {
+  if (!cookieConfig) return;
+
+  const startedAt = session.started_at ? Date.parse(session.started_at) : NaN;
+  const value = [
+    session.session_id,
+    session.last_activity,
+    Number.isNaN(startedAt) ? "" : startedAt,
+  ].join(".");
+  writeCookie(cookieConfig.sessionCookie, value, SESSION_COOKIE_MAX_AGE_SECONDS);
+}
+
+export function clearSessionCookie(): void {
+  if (!cookieConfig) return;
+
+  try {
+    document.cookie = serializeCookie(cookieConfig.sessionCookie, "", cookieConfig, 0);
+  } catch (error) {
+    console.warn("[Analytics] Failed to remove session cookie:", error);
+  }
+}
+
+/**
+ * Delete both identity cookies, e.g. when analytics consent is denied
+ */
+export function clearIdentityCookies(): void {
+  if (!cookieConfig) return;
+
+  try {
+    document.cookie = serializeCookie(cookieConfig.visitorCookie, "", cookieConfig, 0);
+  } catch (error) {
+    console.warn("[Analytics] Failed to remove identity cookie:", error);
+  }
+  clearSessionCookie();
+}
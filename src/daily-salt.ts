@@ -0,0 +1,46 @@
+/**
+ * Request header the middleware uses to hand the daily salt to server components
+ */
+export const DAILY_SALT_HEADER = 'x-analytics-daily-salt';
+
+/**
+ * Calendar day in UTC (YYYY-MM-DD) - salts and cookieless ids rotate at UTC midnight
+ */
+export function getUtcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Derive the salt for a day from a server-only secret - HMAC-SHA-256 of the UTC day
+ * Without the secret, knowing one day's salt does not reveal another day's
+ * Returns null when SubtleCrypto is unavailable
+ */
+export async function deriveDailySalt(secret: string, date: Date = new Date()): Promise<string | null> {
+  try {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      console.warn('[Analytics] SubtleCrypto unavailable - no daily salt derived');
+      return null;
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(getUtcDay(date)));
+
+    return toHex(signature);
+  } catch (error) {
+    console.warn('[Analytics] Failed to derive daily salt:', error);
+    return null;
+  }
+}
@@ -0,0 +1,95 @@
+export const SCROLL_MILESTONES = [25, 50, 75, 100] as const;
+
+// Time after the last interaction that still counts as engaged
+const ENGAGEMENT_IDLE_WINDOW_MS = 15000;
+
+export interface EngagementSnapshot {
+  engaged_time_ms: number;
+  time_on_page_ms: number;
+  max_scroll_depth: number;
+  scroll_milestones: number[];
+}
+
+/**
+ * Measures engagement for a single page view
+ * Engaged time only accrues while the page is visible and the user interacted
+ * within the idle window; scroll depth is the deepest point seen as a percentage
+ */
+export class PageEngagement {
+  private readonly startedAt: number;
+  private engagedMs = 0;
+  private segmentStart: number | null = null;
+  private activeUntil = 0;
+  private visible: boolean;
+  private maxScrollDepth = 0;
+
+  constructor(now: number = Date.now()) {
+    this.startedAt = now;
+    this.visible = typeof document === "undefined" || !document.hidden;
+
+    // Landing on a page counts as engagement until the idle window passes
+    if (this.visible) {
+      this.segmentStart = now;
+      this.activeUntil = now + ENGAGEMENT_IDLE_WINDOW_MS;
+    }
+  }
+
+  recordActivity(now: number = Date.now()): void {
+    if (!this.visible) return;
+
+    if (this.segmentStart !== null && now <= this.activeUntil) {
+      this.activeUntil = now + ENGAGEMENT_IDLE_WINDOW_MS;
+      return;
+    }
+
+    this.commitSegment(now);
+    this.segmentStart = now;
+    this.activeUntil = now + ENGAGEMENT_IDLE_WINDOW_MS;
+  }
+
+  setVisible(visible: boolean, now: number = Date.now()): void {
+    if (visible === this.visible) return;
+    this.visible = visible;
+
+    if (visible) {
+      this.recordActivity(now);
+    } else {
+      this.commitSegment(now);
+    }
+  }
+
+  updateScrollDepth(): void {
+    if (typeof window === "undefined" || typeof document === "undefined") return;
+
+    const scrollHeight = document.documentElement.scrollHeight;
+    const depth =
+      scrollHeight <= window.innerHeight
+        ? 100
+        : ((window.scrollY + window.innerHeight) / scrollHeight) * 100;
+
+    this.maxScrollDepth = Math.max(this.maxScrollDepth, Math.min(100, Math.round(depth)));
+  }
+
+  snapshot(now: number = Date.now()): EngagementSnapshot {
+    const openSegment =
+      this.segmentStart !== null
+        ? Math.max(0, Math.min(now, this.activeUntil) - this.segmentStart)
+        : 0;
+
+    return {
+      engaged_time_ms: Math.round(this.engagedMs + openSegment),
+      time_on_page_ms: Math.max(0, now - this.startedAt),
+      max_scroll_depth: this.maxScrollDepth,
+      scroll_milestones: SCROLL_MILESTONES.filter(
+        (milestone) => this.maxScrollDepth >= milestone
+      ),
+    };
+  }
+
+  private commitSegment(now: number): void {
+    if (this.segmentStart === null) return;
+
+    this.engagedMs += Math.max(0, Math.min(now, this.activeUntil) - this.segmentStart);
+    this.segmentStart = null;
+  }
+}
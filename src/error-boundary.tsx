@@ -0,0 +1,52 @@
+"use client";
+
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { captureBoundaryError } from "./tracker-api";
+
+export interface AnalyticsErrorBoundaryProps {
+  children?: ReactNode;
+  // Rendered after a render error; a function receives the error and a reset callback
+  fallback?: ReactNode | ((error: unknown, reset: () => void) => ReactNode);
+  onError?: (error: unknown, errorInfo: ErrorInfo) => void;
+}
+
+interface AnalyticsErrorBoundaryState {
+  hasError: boolean;
+  error: unknown;
+}
+
+/**
+ * React error boundary that reports render errors through the analytics error channel
+ * Requires VisitorTracker with errorTracking enabled to actually send events
+ */
+export class AnalyticsErrorBoundary extends Component<
+  AnalyticsErrorBoundaryProps,
+  AnalyticsErrorBoundaryState
+> {
+  state: AnalyticsErrorBoundaryState = { hasError: false, error: null };
+
+  static getDerivedStateFromError(error: unknown): AnalyticsErrorBoundaryState {
+    return { hasError: true, error };
+  }
+
+  componentDidCatch(error: unknown, errorInfo: ErrorInfo): void {
+    captureBoundaryError(error, errorInfo.componentStack);
+    this.props.onError?.(error, errorInfo);
+  }
+
+  private reset = (): void => {
+    this.setState({ hasError: false, error: null });
+  };
+
+  render(): ReactNode {
+    if (!this.state.hasError) {
+      return this.props.children;
+    }
+
+    const { fallback } = this.props;
+    if (typeof fallback === "function") {
+      return fallback(this.state.error, this.reset);
+    }
+    return fallback ?? null;
+  }
+}
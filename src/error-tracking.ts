@@ -0,0 +1,213 @@
+import { EVENT_TYPES, type BaseHumanEvent } from "./event-types";
+import { hashString } from "./hash-utils";
+import { getSessionItem, setSessionItem } from "./session-store";
+
+export type ClientErrorKind = NonNullable<BaseHumanEvent["error_kind"]>;
+
+/**
+ * Opt-in capture of uncaught errors and unhandled promise rejections
+ * true enables it with the defaults below
+ */
+export interface ErrorTrackingConfig {
+  maxErrorsPerSession?: number; // Default: 20 distinct errors
+  ignoreErrors?: Array<string | RegExp>; // Matched against the error message
+}
+
+/**
+ * Normalized error ready to be attached to an 'error' event
+ */
+export interface CapturedError {
+  kind: ClientErrorKind;
+  message: string;
+  stack?: string;
+  source?: string;
+  line?: number;
+  column?: number;
+  fingerprint: string;
+}
+
+interface SessionErrorState {
+  count: number;
+  fingerprints: string[];
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_STACK_FRAMES = 20;
+const MAX_STACK_LENGTH = 4000;
+
+// Browser noise that carries no actionable information
+const DEFAULT_IGNORED_MESSAGES = [/^Script error\.?$/, /ResizeObserver loop/];
+
+export function resolveErrorTrackingConfig(
+  errorTracking?: boolean | ErrorTrackingConfig
+): Required<ErrorTrackingConfig> | null {
+  if (!errorTracking) return null;
+
+  const config = errorTracking === true ? {} : errorTracking;
+  return {
+    maxErrorsPerSession: Math.max(1, config.maxErrorsPerSession ?? 20),
+    ignoreErrors: config.ignoreErrors ?? [],
+  };
+}
+
+/**
+ * Strip query strings, hashes and the current origin from URLs
+ * so the same error from different deploys or sessions fingerprints identically
+ */
+function normalizeUrl(url: string): string {
+  const withoutQuery = url.replace(/[?#][^\s:)]*/g, "");
+  if (typeof window === "undefined") return withoutQuery;
+  return withoutQuery.split(window.location.origin).join("");
+}
+
+export function normalizeStack(stack?: string): string | undefined {
+  if (!stack) return undefined;
+
+  const frames = stack
+    .split("\n")
+    .map((frame) => normalizeUrl(frame.trim()))
+    .filter((frame) => frame.length > 0)
+    .slice(0, MAX_STACK_FRAMES);
+
+  return frames.join("\n").substring(0, MAX_STACK_LENGTH) || undefined;
+}
+
+function getErrorMessage(value: unknown): string {
+  if (value instanceof Error) return value.message || value.name;
+  if (typeof value === "string") return value;
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function createCapturedError(
+  kind: ClientErrorKind,
+  rawMessage: string,
+  details: { stack?: string; source?: string; line?: number; column?: number }
+): CapturedError {
+  const message = rawMessage.trim().substring(0, MAX_MESSAGE_LENGTH) || "Unknown error";
+  const stack = normalizeStack(details.stack);
+  const source = details.source ? normalizeUrl(details.source) : undefined;
+
+  // Message plus the top frame (or source position) identifies the error across sessions
+  const location = stack?.split("\n").find((frame) => /:\d+/.test(frame)) ??
+    `${source ?? ""}:${details.line ?? ""}:${details.column ?? ""}`;
+
+  return {
+    kind,
+    message,
+    stack,
+    source,
+    line: details.line || undefined,
+    column: details.column || undefined,
+    fingerprint: hashString(`${kind}|${message}|${location}`),
+  };
+}
+
+export function captureErrorEvent(event: ErrorEvent): CapturedError {
+  const error = event.error as unknown;
+  return createCapturedError("error", event.message || getErrorMessage(error), {
+    stack: error instanceof Error ? error.stack : undefined,
+    source: event.filename,
+    line: event.lineno,
+    column: event.colno,
+  });
+}
+
+export function captureRejection(event: PromiseRejectionEvent): CapturedError {
+  const reason = event.reason as unknown;
+  return createCapturedError("unhandledrejection", getErrorMessage(reason), {
+    stack: reason instanceof Error ? reason.stack : undefined,
+  });
+}
+
+export function captureException(
+  error: unknown,
+  kind: ClientErrorKind = "error",
+  componentStack?: string
+): CapturedError {
+  const stack = error instanceof Error ? error.stack : undefined;
+  return createCapturedError(kind, getErrorMessage(error), {
+    stack: componentStack ? [stack, componentStack].filter(Boolean).join("\n") : stack,
+  });
+}
+
+export function isIgnoredError(
+  error: CapturedError,
+  config: Required<ErrorTrackingConfig>
+): boolean {
+  return [...DEFAULT_IGNORED_MESSAGES, ...config.ignoreErrors].some((pattern) =>
+    typeof pattern === "string" ? error.message.includes(pattern) : pattern.test(error.message)
+  );
+}
+
+/**
+ * Per-session deduplication and cap
+ * Each fingerprint is reported once per session, up to maxErrorsPerSession distinct errors
+ */
+export function shouldReportError(
+  error: CapturedError,
+  sessionId: string,
+  config: Required<ErrorTrackingConfig>
+): boolean {
+  const storageKey = `errors_${sessionId}`;
+  const state = getSessionItem<SessionErrorState>(storageKey) ?? {
+    count: 0,
+    fingerprints: [],
+  };
+
+  if (state.fingerprints.includes(error.fingerprint)) return false;
+  if (state.count >= config.maxErrorsPerSession) return false;
+
+  setSessionItem(storageKey, {
+    count: state.count + 1,
+    fingerprints: [...state.fingerprints, error.fingerprint],
+  });
+  return true;
+}
+
+export function getErrorEventFields(error: CapturedError): Partial<BaseHumanEvent> {
+  return {
+    event_type: EVENT_TYPES.ERROR,
+    error_kind: error.kind,
+    error_message: error.message,
+    error_stack: error.stack,
+    error_source: error.source,
+    error_line: error.line,
+    error_column: error.column,
+    error_fingerprint: error.fingerprint,
+  };
+}
+
+/**
+ * Listen for uncaught errors and unhandled rejections on window
+ * Returns the matching cleanup function
+ */
+export function installErrorListeners(report: (error: CapturedError) => void): () => void {
+  const handleError = (event: ErrorEvent) => {
+    try {
+      report(captureErrorEvent(event));
+    } catch {
+      // Never let error reporting raise errors of its own
+    }
+  };
+
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    try {
+      report(captureRejection(event));
+    } catch {
+      // Never let error reporting raise errors of its own
+    }
+  };
+
+  window.addEventListener("error", handleError);
+  window.addEventListener("unhandledrejection", handleRejection);
+
+  return () => {
+    window.removeEventListener("error", handleError);
+    window.removeEventListener("unhandledrejection", handleRejection);
+  };
+}
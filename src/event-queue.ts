@@ -0,0 +1,117 @@
+import type { BaseHumanEvent, EventBatch, PerformanceEvent } from "./event-types";
+
+export interface EventQueueOptions {
+  maxSize: number;
+  flushIntervalMs: number;
+}
+
+/**
+ * Delivers a drained batch - useBeacon is set when the page is being hidden
+ * and the request must survive the document going away
+ */
+export type BatchSender = (batch: EventBatch, useBeacon: boolean) => void;
+
+/**
+ * In-memory queue that groups client events into batches
+ * Flushes when maxSize is reached, after flushIntervalMs, or on page hide
+ */
+export class EventQueue {
+  private humanEvents: BaseHumanEvent[] = [];
+  private performanceEvents: PerformanceEvent[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private options: EventQueueOptions,
+    private sendBatch: BatchSender
+  ) {
+    if (typeof window !== "undefined") {
+      window.addEventListener("pagehide", this.handlePageHide);
+      document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    }
+  }
+
+  get size(): number {
+    return this.humanEvents.length + this.performanceEvents.length;
+  }
+
+  setOptions(options: EventQueueOptions): void {
+    this.options = options;
+  }
+
+  enqueueHuman(event: BaseHumanEvent): void {
+    this.humanEvents.push(event);
+    this.afterEnqueue();
+  }
+
+  enqueuePerformance(event: PerformanceEvent): void {
+    this.performanceEvents.push(event);
+    this.afterEnqueue();
+  }
+
+  flush(useBeacon: boolean = false): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    if (this.size === 0) return;
+
+    const batch: EventBatch = {
+      human_events: this.humanEvents,
+      performance_events: this.performanceEvents,
+      sent_at: new Date().toISOString(),
+    };
+    this.humanEvents = [];
+    this.performanceEvents = [];
+
+    try {
+      this.sendBatch(batch, useBeacon);
+    } catch (error) {
+      console.error("[Analytics] Error flushing event batch:", error);
+    }
+  }
+
+  /**
+   * Drop queued events without sending them
+   */
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.humanEvents = [];
+    this.performanceEvents = [];
+  }
+
+  destroy(): void {
+    this.flush(true);
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this.handlePageHide);
+      document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    }
+  }
+
+  private afterEnqueue(): void {
+    if (this.size >= this.options.maxSize) {
+      this.flush();
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush();
+      }, this.options.flushIntervalMs);
+    }
+  }
+
+  private handlePageHide = () => {
+    this.flush(true);
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.flush(true);
+    }
+  };
+}
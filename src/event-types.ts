@@ -8,7 +8,17 @@
 export const EVENT_TYPES = {
   PAGEVIEW: 'pageview',
   SESSION_START: 'session_start',
-  HEARTBEAT: 'heartbeat'
+  HEARTBEAT: 'heartbeat',
+  CUSTOM: 'custom',
+  GOAL_COMPLETED: 'goal_completed',
+  FUNNEL_STEP: 'funnel_step',
+  OUTBOUND_CLICK: 'outbound_click',
+  FILE_DOWNLOAD: 'file_download',
+  PAGE_LEAVE: 'page_leave',
+  ERROR: 'error',
+  IDENTIFY: 'identify',
+  SITE_SEARCH: 'site_search',
+  SESSION_END: 'session_end'
 } as const;
 
 export const BOT_CATEGORIES = {
@@ -18,6 +28,25 @@ export const BOT_CATEGORIES = {
   UNKNOWN: 'UNKNOWN'
 } as const;
 
+export const TRAFFIC_CHANNELS = {
+  DIRECT: 'direct',
+  INTERNAL: 'internal',
+  ORGANIC_SEARCH: 'organic_search',
+  PAID_SEARCH: 'paid_search',
+  SOCIAL: 'social',
+  PAID_SOCIAL: 'paid_social',
+  EMAIL: 'email',
+  AI_ASSISTANT: 'ai_assistant',
+  REFERRAL: 'referral',
+  CAMPAIGN: 'campaign'
+} as const;
+
+export const SESSION_END_REASONS = {
+  TIMEOUT: 'timeout', // 30 minutes without activity in any tab
+  UNLOAD: 'unload',   // Last open tab of the session unloaded
+  RESET: 'reset'      // reset() was called, e.g. on logout
+} as const;
+
 export const PERFORMANCE_GRADES = {
   GOOD: 'good',
   NEEDS_WORK: 'needs work',
@@ -26,13 +55,53 @@ export const PERFORMANCE_GRADES = {
 
 export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
 export type BotCategory = typeof BOT_CATEGORIES[keyof typeof BOT_CATEGORIES];
+export type TrafficChannel = typeof TRAFFIC_CHANNELS[keyof typeof TRAFFIC_CHANNELS];
+export type SessionEndReason = typeof SESSION_END_REASONS[keyof typeof SESSION_END_REASONS];
 export type PerformanceGrade = typeof PERFORMANCE_GRADES[keyof typeof PERFORMANCE_GRADES];
 
+/**
+ * Custom event property bag - flat primitive values only
+ */
+export type EventPropertyValue = string | number | boolean | null;
+export type EventProperties = Record<string, EventPropertyValue>;
+
+/**
+ * Size limits applied to custom events before they are sent
+ */
+export const CUSTOM_EVENT_LIMITS = {
+  MAX_NAME_LENGTH: 64,
+  MAX_PROPERTIES: 25,
+  MAX_KEY_LENGTH: 64,
+  MAX_STRING_LENGTH: 256,
+  MAX_PROPERTIES_BYTES: 2048
+} as const;
+
+/**
+ * Campaign parameters read from the landing page query string
+ */
+export interface CampaignParameters {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  gclid?: string;  // Google Ads click id
+  fbclid?: string; // Meta click id
+}
+
+/**
+ * Campaign touch kept for first-touch / last-touch attribution
+ */
+export interface TouchAttribution extends CampaignParameters {
+  landing_path: string;
+  touched_at: string; // ISO datetime
+}
+
 /**
  * Base event fields common to all human events
  * Field names match database schema (snake_case for consistency)
  */
-export interface BaseHumanEvent {
+export interface BaseHumanEvent extends CampaignParameters {
   website_domain: string;
   path: string;
   visitor_id: string;
@@ -42,9 +111,71 @@ export interface BaseHumanEvent {
   session_start_time: string; // ISO datetime
   
   // Optional fields
+  route?: string; // Route template, e.g. "/users/[id]" for path "/users/123"
   visitor_name?: string;
   referrer?: string;
   sdk_version?: string;
+  privacy_mode?: 'cookieless'; // visitor_id rotates daily and is_new_visitor is always false
+
+  // Campaign parameters (utm_*, gclid, fbclid) are inherited from CampaignParameters
+  // and repeated on every event of the session they were captured on
+
+  // Session attributes (every event)
+  entry_path?: string;         // First path of the session
+  landing_referrer?: string;   // Referrer of the session's first page
+  pageview_index?: number;     // 1-based index of the current page view in the session, 0 before the first
+  previous_path?: string;      // Path of this tab's page view before the current one
+  session_elapsed_ms?: number; // Time since session_start_time
+
+  // Session end fields (event_type 'session_end')
+  end_reason?: SessionEndReason;
+  session_duration_ms?: number; // From session start to the last activity (timeout) or the end
+
+  // Acquisition fields (event_type 'session_start' / 'pageview')
+  channel?: TrafficChannel;
+  referrer_source?: string; // e.g. "google", "linkedin" or the referring hostname
+
+  // Attribution fields (event_type 'session_start' / 'goal_completed')
+  first_touch?: TouchAttribution;
+  last_touch?: TouchAttribution;
+
+  // Custom event fields (event_type 'custom')
+  event_name?: string;
+  event_properties?: EventProperties;
+
+  // Conversion fields (event_type 'goal_completed' / 'funnel_step')
+  goal_id?: string;
+  funnel_id?: string;
+  funnel_step_index?: number; // 0-based
+  funnel_step_name?: string;
+  funnel_step_count?: number;
+
+  // Link click fields (event_type 'outbound_click' / 'file_download')
+  target_url?: string; // Origin and path only - query string is not recorded
+  file_extension?: string;
+
+  // Engagement fields (event_type 'page_leave')
+  engaged_time_ms?: number;    // Foreground time with recent interaction
+  time_on_page_ms?: number;    // Wall-clock time since the page view
+  max_scroll_depth?: number;   // Percentage 0-100
+  scroll_milestones?: number[]; // Reached milestones out of 25/50/75/100
+
+  // Identity fields (event_type 'identify')
+  previous_visitor_id?: string; // Anonymous (or previously identified) id now linked to visitor_id
+  user_traits?: EventProperties;
+
+  // Site search fields (event_type 'site_search')
+  search_term?: string;         // Normalized: trimmed, lowercased, at most 100 characters
+  search_result_count?: number; // Unset when the site provides no count
+
+  // Error fields (event_type 'error')
+  error_kind?: 'error' | 'unhandledrejection' | 'boundary';
+  error_message?: string;
+  error_stack?: string;        // Normalized - query strings and origin stripped, frames capped
+  error_source?: string;
+  error_line?: number;
+  error_column?: number;
+  error_fingerprint?: string;  // Stable hash used for deduplication
   
   // Client context fields
   screen_resolution: string | null; // Format: "1920x1080"
@@ -102,6 +233,7 @@ export interface BotEvent {
   bot_category: BotCategory;
   timestamp: string; // ISO datetime
   sdk_version?: string;
+  visitor_id?: string; // From the identity cookie, when the request carried one
 }
 
 /**
@@ -112,6 +244,7 @@ export interface PerformanceEvent {
   website_domain: string;
   visitor_id: string;
   page: string;
+  route?: string; // Route template of page
   timestamp: string; // ISO datetime
   sdk_version?: string;
   
@@ -168,6 +301,18 @@ export interface PerformanceEvent {
   }>;
 }
 
+/**
+ * Batch payload structure
+ * Groups queued client events into a single collector request
+ * Beacon deliveries use a text/plain body containing this JSON document
+ */
+export interface EventBatch {
+  human_events: BaseHumanEvent[];
+  performance_events: PerformanceEvent[];
+  sent_at: string; // ISO datetime
+  sdk_version?: string;
+}
+
 /**
  * Union type for all event types
  */
@@ -0,0 +1,176 @@
+import { EVENT_TYPES, type BaseHumanEvent, type EventProperties } from "./event-types";
+import { getSessionItem, setSessionItem } from "./session-store";
+
+/**
+ * Condition that completes a goal or funnel step
+ * - path: exact path, a pattern with * wildcards (e.g. "/thank-you/*"), or a RegExp
+ * - event: custom event name, optionally requiring matching property values
+ */
+export type ConversionMatcher =
+  | { path: string | RegExp }
+  | { event: string; properties?: EventProperties };
+
+export interface GoalDefinition {
+  id: string;
+  match: ConversionMatcher;
+}
+
+export interface FunnelStepDefinition {
+  name?: string;
+  match: ConversionMatcher;
+}
+
+export interface FunnelDefinition {
+  id: string;
+  steps: FunnelStepDefinition[];
+}
+
+/**
+ * Event being evaluated against goal and funnel definitions
+ */
+export interface ConversionInput {
+  path: string;
+  eventName?: string;
+  properties?: EventProperties;
+}
+
+export interface FunnelProgress {
+  funnel: FunnelDefinition;
+  stepIndex: number;
+}
+
+function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Match a path against an exact path, a * wildcard pattern or a RegExp
+ */
+export function matchesPath(pattern: string | RegExp, path: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(path);
+  }
+
+  const normalizedPattern = normalizePath(pattern);
+  const normalizedPath = normalizePath(path);
+
+  if (!normalizedPattern.includes("*")) {
+    return normalizedPattern === normalizedPath;
+  }
+
+  const regex = new RegExp(
+    `^${normalizedPattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`
+  );
+  return regex.test(normalizedPath);
+}
+
+export function matchesConversion(matcher: ConversionMatcher, input: ConversionInput): boolean {
+  if ("path" in matcher) {
+    // Path matchers only fire on page views
+    return input.eventName === undefined && matchesPath(matcher.path, input.path);
+  }
+
+  if (input.eventName !== matcher.event) {
+    return false;
+  }
+
+  if (!matcher.properties) {
+    return true;
+  }
+
+  return Object.entries(matcher.properties).every(
+    ([key, value]) => input.properties?.[key] === value
+  );
+}
+
+/**
+ * Return goals completed by this event for the first time in the session
+ * Completion is persisted with the session so reloads and other tabs never double-count
+ */
+export function evaluateGoals(
+  goals: GoalDefinition[],
+  input: ConversionInput,
+  sessionId: string
+): GoalDefinition[] {
+  if (goals.length === 0) return [];
+
+  const storageKey = `goals_${sessionId}`;
+  const completed = getSessionItem<string[]>(storageKey) ?? [];
+
+  const newlyCompleted = goals.filter(
+    (goal) => !completed.includes(goal.id) && matchesConversion(goal.match, input)
+  );
+
+  if (newlyCompleted.length > 0) {
+    setSessionItem(storageKey, [
+      ...completed,
+      ...newlyCompleted.map((goal) => goal.id),
+    ]);
+  }
+
+  return newlyCompleted;
+}
+
+/**
+ * Advance ordered funnels whose next step matches this event
+ * Steps must be completed in order; progress is persisted per session
+ */
+export function evaluateFunnels(
+  funnels: FunnelDefinition[],
+  input: ConversionInput,
+  sessionId: string
+): FunnelProgress[] {
+  if (funnels.length === 0) return [];
+
+  const storageKey = `funnels_${sessionId}`;
+  const progress = getSessionItem<Record<string, number>>(storageKey) ?? {};
+  const advanced: FunnelProgress[] = [];
+
+  for (const funnel of funnels) {
+    const completedSteps = progress[funnel.id] ?? 0;
+    const nextStep = funnel.steps[completedSteps];
+
+    if (nextStep && matchesConversion(nextStep.match, input)) {
+      progress[funnel.id] = completedSteps + 1;
+      advanced.push({ funnel, stepIndex: completedSteps });
+    }
+  }
+
+  if (advanced.length > 0) {
+    setSessionItem(storageKey, progress);
+  }
+
+  return advanced;
+}
+
+/**
+ * Evaluate goals and funnels and build the fields of the conversion events to emit
+ */
+export function getConversionEventFields(
+  goals: GoalDefinition[],
+  funnels: FunnelDefinition[],
+  input: ConversionInput,
+  sessionId: string
+): Array<Partial<BaseHumanEvent>> {
+  const goalEvents = evaluateGoals(goals, input, sessionId).map(
+    (goal): Partial<BaseHumanEvent> => ({
+      event_type: EVENT_TYPES.GOAL_COMPLETED,
+      goal_id: goal.id,
+    })
+  );
+
+  const funnelEvents = evaluateFunnels(funnels, input, sessionId).map(
+    ({ funnel, stepIndex }): Partial<BaseHumanEvent> => ({
+      event_type: EVENT_TYPES.FUNNEL_STEP,
+      funnel_id: funnel.id,
+      funnel_step_index: stepIndex,
+      funnel_step_name: funnel.steps[stepIndex].name,
+      funnel_step_count: funnel.steps.length,
+    })
+  );
+
+  return [...goalEvents, ...funnelEvents];
+}
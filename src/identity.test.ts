@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it } from "node:test";
+
+/**
+ * Minimal browser globals for the storage-backed identity functions
+ * Storage keys are own properties, as storage-utils lists them with Object.keys
+ */
+function createStorage(): Storage {
+  const storage = {} as Record<string, string>;
+  Object.defineProperties(storage, {
+    getItem: { value: (key: string) => (key in storage ? storage[key] : null) },
+    setItem: { value: (key: string, value: string) => (storage[key] = String(value)) },
+    removeItem: { value: (key: string) => delete storage[key] },
+    clear: { value: () => Object.keys(storage).forEach((key) => delete storage[key]) },
+  });
+  return storage as unknown as Storage;
+}
+
+const browser = globalThis as Record<string, unknown>;
+browser.window = {
+  location: { hostname: "example.com", protocol: "https:" },
+  addEventListener: () => undefined,
+  removeEventListener: () => undefined,
+};
+browser.document = { cookie: "" };
+browser.localStorage = createStorage();
+browser.sessionStorage = createStorage();
+Object.defineProperty(globalThis, "navigator", {
+  value: { userAgent: "Mozilla/5.0 Chrome/120.0", language: "en-US", hardwareConcurrency: 8 },
+  configurable: true,
+});
+browser.screen = { width: 1440, height: 900 };
+
+// Loaded after the globals, since storage-utils checks for window when it is evaluated
+let generateRandomId: typeof import("./identity").generateRandomId;
+let getAnonymousId: typeof import("./identity").getAnonymousId;
+let takeVisitorIdMigration: typeof import("./identity").takeVisitorIdMigration;
+let AnalyticsStorage: typeof import("./storage-utils").AnalyticsStorage;
+
+before(async () => {
+  ({ generateRandomId, getAnonymousId, takeVisitorIdMigration } = await import("./identity"));
+  ({ AnalyticsStorage } = await import("./storage-utils"));
+});
+
+// A second browser with the same device, browser and settings shares every fingerprint input
+function switchBrowser(): void {
+  localStorage.clear();
+  sessionStorage.clear();
+}
+
+describe("generateRandomId", () => {
+  it("returns 32 hex characters", () => {
+    assert.match(generateRandomId(), /^[0-9a-f]{32}$/);
+  });
+
+  it("does not repeat across many ids", () => {
+    const ids = new Set(Array.from({ length: 10000 }, () => generateRandomId()));
+    assert.equal(ids.size, 10000);
+  });
+});
+
+describe("getAnonymousId", () => {
+  beforeEach(switchBrowser);
+
+  it("gives identical browsers different ids", () => {
+    const first = getAnonymousId();
+    switchBrowser();
+    const second = getAnonymousId();
+
+    assert.notEqual(first, second);
+  });
+
+  it("keeps the stored id for the same browser", () => {
+    assert.equal(getAnonymousId(), getAnonymousId());
+  });
+
+  it("migrates a stored fingerprint id to a random id", () => {
+    AnalyticsStorage.setItem("anonymous_id", "1a2b3c4");
+    AnalyticsStorage.setVisitor("1a2b3c4");
+
+    const anonymousId = getAnonymousId();
+
+    assert.match(anonymousId, /^[0-9a-f]{32}$/);
+    assert.equal(AnalyticsStorage.hasVisitor(anonymousId), true);
+    assert.deepEqual(takeVisitorIdMigration(), {
+      previous_visitor_id: "1a2b3c4",
+      visitor_id: anonymousId,
+    });
+    assert.equal(takeVisitorIdMigration(), null);
+    assert.equal(getAnonymousId(), anonymousId);
+  });
+
+  it("splits visitors who shared a fingerprint id", () => {
+    AnalyticsStorage.setItem("anonymous_id", "1a2b3c4");
+    const first = getAnonymousId();
+    switchBrowser();
+    AnalyticsStorage.setItem("anonymous_id", "1a2b3c4");
+    const second = getAnonymousId();
+
+    assert.notEqual(first, second);
+  });
+
+  it("migrates a legacy visitor_id after the user agent changed", () => {
+    AnalyticsStorage.setItem("visitor_id", "zx81abc");
+    AnalyticsStorage.setVisitor("zx81abc");
+    Object.defineProperty(globalThis, "navigator", {
+      value: { ...navigator, userAgent: "Mozilla/5.0 Chrome/121.0" },
+      configurable: true,
+    });
+
+    const anonymousId = getAnonymousId();
+
+    assert.equal(AnalyticsStorage.hasVisitor(anonymousId), true);
+    assert.equal(takeVisitorIdMigration()?.previous_visitor_id, "zx81abc");
+  });
+
+  it("does not migrate a username stored as visitor_id", () => {
+    AnalyticsStorage.setItem("visitor_id", "jdoe");
+
+    const anonymousId = getAnonymousId();
+
+    assert.notEqual(anonymousId, "jdoe");
+    assert.equal(AnalyticsStorage.hasVisitor(anonymousId), false);
+    assert.equal(takeVisitorIdMigration(), null);
+  });
+});
@@ -0,0 +1,191 @@
+import { readVisitorCookie, writeVisitorCookie } from "./cookie-storage";
+import { getUtcDay } from "./daily-salt";
+import { hashStringLong } from "./hash-utils";
+import { AnalyticsStorage, setCookielessStorage } from "./storage-utils";
+
+/**
+ * standard: anonymous ids persist in localStorage
+ * cookieless: nothing is persisted; anonymous ids are a salted hash that rotates daily
+ */
+export type PrivacyMode = "standard" | "cookieless";
+
+// The anonymous id survives identify(), so the pre-login history stays linkable
+const ANONYMOUS_ID_KEY = "anonymous_id";
+const IDENTIFIED_USER_KEY = "identified_user_id";
+// Written before anonymous ids were stored separately
+const LEGACY_VISITOR_ID_KEY = "visitor_id";
+// Link from a migrated fingerprint id, kept until the tracker has reported it
+const VISITOR_ID_MIGRATION_KEY = "visitor_id_migration";
+const LEGACY_ID_PATTERN = /^[0-9a-z]{1,7}$/;
+
+/**
+ * An anonymous id replaced by another one - a fingerprint id by a random id, or a
+ * per-origin id by the one in the shared identity cookie
+ */
+export interface VisitorIdMigration {
+  previous_visitor_id: string;
+  visitor_id: string;
+}
+
+let privacyMode: PrivacyMode = "standard";
+let dailySalt = "";
+
+/**
+ * Normalize a user id or username into a visitor id
+ * Truncated to 50 characters, so long ids sharing a prefix collide; pseudonymizeUserId
+ * is the collision-free alternative
+ */
+export function cleanUserId(userId: string): string {
+  return (
+    userId
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, "-")
+      .replace(/[^a-z0-9-]/g, "")
+      .replace(/-+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .substring(0, 50) || "unknown-user"
+  );
+}
+
+function getFingerprint(): string {
+  return [
+    navigator.userAgent || "unknown",
+    navigator.language || "unknown",
+    `${screen.width}x${screen.height}`,
+    (navigator as Navigator & { hardwareConcurrency?: number })
+      .hardwareConcurrency || "unknown",
+    Intl.DateTimeFormat().resolvedOptions().timeZone || "unknown",
+  ].join("|");
+}
+
+/**
+ * Apply the tracker's privacy mode
+ * The salt should come from the middleware (see DAILY_SALT_HEADER); without it the
+ * cookieless id only rotates daily and can be recomputed by anyone with the same fingerprint
+ */
+export function configurePrivacyMode(mode: PrivacyMode, salt?: string | null): void {
+  privacyMode = mode;
+  dailySalt = salt ?? "";
+  setCookielessStorage(mode === "cookieless");
+}
+
+export function isCookieless(): boolean {
+  return privacyMode === "cookieless";
+}
+
+/**
+ * Cookieless visitor id - stable for one site, browser and UTC day, never stored
+ */
+function getDailyVisitorId(): string {
+  const hostname = typeof window !== "undefined" ? window.location.hostname : "";
+  return `d${hashStringLong(`${dailySalt}|${getUtcDay()}|${hostname}|${getFingerprint()}`)}`;
+}
+
+/**
+ * 128-bit random id as 32 hex characters
+ * randomUUID needs a secure context; getRandomValues works everywhere crypto exists
+ */
+export function generateRandomId(): string {
+  try {
+    if (typeof crypto.randomUUID === "function") {
+      return crypto.randomUUID().replace(/-/g, "");
+    }
+
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  } catch {
+    return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 12)}${Math.random()
+      .toString(36)
+      .substring(2, 12)}`;
+  }
+}
+
+/**
+ * Replace a stored anonymous id
+ * The visitor stays a returning visitor, and the link is kept for the tracker to report
+ */
+function replaceAnonymousId(previousId: string, anonymousId: string): string {
+  if (AnalyticsStorage.hasVisitor(previousId)) {
+    AnalyticsStorage.setVisitor(anonymousId);
+  }
+  AnalyticsStorage.setItem<VisitorIdMigration>(VISITOR_ID_MIGRATION_KEY, {
+    previous_visitor_id: previousId,
+    visitor_id: anonymousId,
+  });
+
+  return anonymousId;
+}
+
+/**
+ * Anonymous visitor id for this browser - random and stored on first use
+ * The identity cookie, when enabled, takes precedence so subdomains share one id
+ * A fingerprint id stored by an earlier version is migrated to a random id
+ * In cookieless mode it is the daily rotating hash
+ */
+export function getAnonymousId(): string {
+  if (isCookieless()) return getDailyVisitorId();
+
+  const storedId = AnalyticsStorage.getItem<string>(ANONYMOUS_ID_KEY);
+  const cookieId = readVisitorCookie();
+
+  let anonymousId: string;
+  if (cookieId) {
+    anonymousId =
+      storedId && storedId !== cookieId ? replaceAnonymousId(storedId, cookieId) : cookieId;
+  } else if (storedId) {
+    // Fingerprint hashes are short base36 strings; random ids are 32 hex characters
+    anonymousId = LEGACY_ID_PATTERN.test(storedId)
+      ? replaceAnonymousId(storedId, generateRandomId())
+      : storedId;
+  } else {
+    // The old visitor_id key may also hold a username-based id; only anonymous ids had a
+    // visitor marker, and the fingerprint itself changes with every browser update
+    const legacyId = AnalyticsStorage.getItem<string>(LEGACY_VISITOR_ID_KEY);
+    anonymousId =
+      legacyId && LEGACY_ID_PATTERN.test(legacyId) && AnalyticsStorage.hasVisitor(legacyId)
+        ? replaceAnonymousId(legacyId, generateRandomId())
+        : generateRandomId();
+  }
+
+  AnalyticsStorage.setItem(ANONYMOUS_ID_KEY, anonymousId);
+  writeVisitorCookie(anonymousId);
+  return anonymousId;
+}
+
+/**
+ * Pending anonymous id migration, removed once read
+ */
+export function takeVisitorIdMigration(): VisitorIdMigration | null {
+  const migration = AnalyticsStorage.getItem<VisitorIdMigration>(VISITOR_ID_MIGRATION_KEY);
+  if (migration) {
+    AnalyticsStorage.removeItem(VISITOR_ID_MIGRATION_KEY);
+  }
+  return migration;
+}
+
+export function getIdentifiedUserId(): string | null {
+  return AnalyticsStorage.getItem<string>(IDENTIFIED_USER_KEY);
+}
+
+export function setIdentifiedUserId(userId: string): void {
+  AnalyticsStorage.setItem(IDENTIFIED_USER_KEY, userId);
+}
+
+/**
+ * Forget the identified user and rotate to a fresh anonymous id
+ * Returns the new anonymous id
+ */
+export function resetIdentity(): string {
+  const anonymousId = generateRandomId();
+
+  AnalyticsStorage.removeItem(IDENTIFIED_USER_KEY);
+  AnalyticsStorage.setItem(ANONYMOUS_ID_KEY, anonymousId);
+  AnalyticsStorage.setItem("visitor_id", anonymousId);
+  writeVisitorCookie(anonymousId);
+
+  return anonymousId;
+}
@@ -1,2 +1,59 @@
 export { VisitorTracker } from './visitor-tracker';
-export type { VisitorTrackerProps } from './visitor-tracker'; 
\ No newline at end of file
+export type { VisitorTrackerProps } from './visitor-tracker';
+export { captureError, identify, reset, track, useTrack } from './tracker-api';
+export { DAILY_SALT_HEADER } from './daily-salt';
+export type { IdentityCookieConfig } from './cookie-storage';
+export type { PrivacyMode } from './identity';
+export type { PseudonymizeConfig } from './pseudonymize';
+export { DEFAULT_SECRET_PARAMS, SCRUB_PLACEHOLDERS } from './pii-scrubber';
+export type { ScrubConfig, ScrubDetector, ScrubRule } from './pii-scrubber';
+export { getConsent, setConsent } from './consent';
+export type { ConsentCategory, ConsentConfig, ConsentState, ConsentStatus } from './consent';
+export { AnalyticsErrorBoundary } from './error-boundary';
+export type { AnalyticsErrorBoundaryProps } from './error-boundary';
+export type { ErrorTrackingConfig } from './error-tracking';
+export type {
+  ConversionMatcher,
+  FunnelDefinition,
+  FunnelStepDefinition,
+  GoalDefinition,
+} from './goals';
+export { DEFAULT_DOWNLOAD_EXTENSIONS } from './link-tracking';
+export { SCROLL_MILESTONES } from './engagement';
+export { CAMPAIGN_PARAMETERS } from './attribution';
+export { REFERRER_REGISTRY, classifyTraffic } from './referrer-registry';
+export type { ReferrerCategory, ReferrerInfo, TrafficClassification } from './referrer-registry';
+export type { AutoCaptureConfig } from './link-tracking';
+export type { RouteConfig } from './route-normalizer';
+export type { UrlTrackingConfig } from './url-tracking';
+export type { SiteSearchConfig } from './site-search';
+export { flushEventQueue } from './send';
+export { BeaconTransport, FetchTransport, MemoryTransport } from './transport';
+export type {
+  DeliveryStatus,
+  Transport,
+  TransportPayload,
+  TransportRequest,
+} from './transport';
+export type { AnalyticsConfig, BatchConfig, EventChannel, RetryConfig } from './analytics-config';
+export {
+  CUSTOM_EVENT_LIMITS,
+  SESSION_END_REASONS,
+  TRAFFIC_CHANNELS,
+  isBotEvent,
+  isHumanEvent,
+  isPerformanceEvent,
+} from './event-types';
+export type {
+  BaseHumanEvent,
+  BotEvent,
+  CampaignParameters,
+  EventBatch,
+  EventProperties,
+  EventPropertyValue,
+  PerformanceEvent,
+  SessionEndReason,
+  TouchAttribution,
+  TrafficChannel,
+} from './event-types';
+export type { BeforeSendContext, BeforeSendHook, OutgoingEvent } from './before-send';
@@ -0,0 +1,121 @@
+import { EVENT_TYPES } from "./event-types";
+
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+  "pdf",
+  "zip",
+  "csv",
+  "xls",
+  "xlsx",
+  "doc",
+  "docx",
+  "ppt",
+  "pptx",
+  "txt",
+  "rtf",
+  "json",
+  "xml",
+  "rar",
+  "7z",
+  "gz",
+  "tar",
+  "dmg",
+  "exe",
+  "msi",
+  "apk",
+  "mp3",
+  "mp4",
+  "mov",
+] as const;
+
+/**
+ * Opt-in automatic capture of link clicks
+ * true enables both outbound link and file download tracking
+ */
+export interface AutoCaptureConfig {
+  outboundLinks?: boolean;
+  fileDownloads?: boolean;
+  downloadExtensions?: string[]; // Replaces DEFAULT_DOWNLOAD_EXTENSIONS
+}
+
+export interface LinkClick {
+  eventType: typeof EVENT_TYPES.OUTBOUND_CLICK | typeof EVENT_TYPES.FILE_DOWNLOAD;
+  targetUrl: string;
+  fileExtension?: string;
+}
+
+export function resolveAutoCaptureConfig(
+  autoCapture?: boolean | AutoCaptureConfig
+): Required<AutoCaptureConfig> | null {
+  if (!autoCapture) return null;
+
+  const config = autoCapture === true ? {} : autoCapture;
+  const resolved = {
+    outboundLinks: config.outboundLinks ?? true,
+    fileDownloads: config.fileDownloads ?? true,
+    downloadExtensions: (config.downloadExtensions ?? [...DEFAULT_DOWNLOAD_EXTENSIONS]).map(
+      (extension) => extension.replace(/^\./, "").toLowerCase()
+    ),
+  };
+
+  return resolved.outboundLinks || resolved.fileDownloads ? resolved : null;
+}
+
+/**
+ * Find the anchor element a click originated from, following shadow DOM retargeting
+ */
+export function findClickedAnchor(event: Event): HTMLAnchorElement | null {
+  const path = typeof event.composedPath === "function" ? event.composedPath() : [];
+  const candidates = path.length > 0 ? path : [event.target];
+
+  for (const node of candidates) {
+    if (node instanceof Element) {
+      const anchor = node.closest("a[href]");
+      if (anchor instanceof HTMLAnchorElement) {
+        return anchor;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Classify a clicked anchor as a file download or an outbound link
+ * Downloads take precedence, so an off-site PDF is reported as a file_download
+ */
+export function classifyLinkClick(
+  anchor: HTMLAnchorElement,
+  currentHostname: string,
+  config: Required<AutoCaptureConfig>
+): LinkClick | null {
+  let url: URL;
+  try {
+    url = new URL(anchor.href, window.location.href);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return null;
+  }
+
+  const targetUrl = `${url.origin}${url.pathname}`;
+
+  if (config.fileDownloads) {
+    const extensionMatch = url.pathname.toLowerCase().match(/\.([a-z0-9]+)$/);
+    const fileExtension = extensionMatch?.[1];
+
+    if (
+      anchor.hasAttribute("download") ||
+      (fileExtension && config.downloadExtensions.includes(fileExtension))
+    ) {
+      return { eventType: EVENT_TYPES.FILE_DOWNLOAD, targetUrl, fileExtension };
+    }
+  }
+
+  if (config.outboundLinks && url.hostname !== currentHostname) {
+    return { eventType: EVENT_TYPES.OUTBOUND_CLICK, targetUrl };
+  }
+
+  return null;
+}
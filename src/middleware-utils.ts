@@ -1,30 +1,98 @@
 import type { NextRequest } from 'next/server';
 import { isbot } from 'isbot';
 import { sendBotVisit } from './send';
+import type { AnalyticsConfig } from './analytics-config';
+import {
+  VISITOR_ID_HEADER,
+  isValidVisitorId,
+  resolveIdentityCookieConfig,
+  serializeCookie,
+} from './cookie-storage';
+import { DAILY_SALT_HEADER, deriveDailySalt } from './daily-salt';
+
+/**
+ * Middleware options - the collector configuration plus server-only settings
+ */
+export interface AnalyticsMiddlewareOptions extends AnalyticsConfig {
+  // Set the identity cookie for visitors without one (requires identityCookie)
+  // Only enable where no consent is needed before storing identifiers
+  issueIdentityCookie?: boolean;
+}
+
+/**
+ * Pass the cookieless daily salt, derived from a server-only secret, on in the
+ * x-analytics-daily-salt request header
+ * Separate from setupAnalyticsMiddleware because Web Crypto is async
+ */
+export async function setDailySaltHeader(headers: Headers, secret: string): Promise<void> {
+  const salt = await deriveDailySalt(secret);
+  if (salt) {
+    headers.set(DAILY_SALT_HEADER, salt);
+  }
+}
 
 /**
  * Combined middleware utility for analytics
  * Handles both pathname header injection and bot tracking
  */
-export function setupAnalyticsMiddleware(request: NextRequest) {
+export function setupAnalyticsMiddleware(
+  request: NextRequest,
+  options: AnalyticsMiddlewareOptions = {}
+) {
+  const { issueIdentityCookie, ...config } = options;
+
   // Extract pathname from URL
   const pathname = request.nextUrl.pathname;
   
   // Clone headers and add pathname
   const headers = new Headers(request.headers);
   headers.set('x-pathname', pathname);
+
+  // Never trust a salt sent by the client; setDailySaltHeader adds the derived one
+  headers.delete(DAILY_SALT_HEADER);
   
   // Skip bot tracking for API routes to prevent infinite loops
   const isApiRoute = pathname.startsWith('/api/');
   
   const userAgent = request.headers.get('user-agent') || '';
   const isVercelBot = /vercel/i.test(userAgent);
-  if (!isApiRoute && isbot(userAgent) && !isVercelBot) {
-    sendBotVisit(request);
+  const isBotRequest = isbot(userAgent) && !isVercelBot;
+
+  // Read (or issue) the identity cookie so server code sees the client's visitor id
+  let visitorId: string | null = null;
+  let setCookie: string | null = null;
+  headers.delete(VISITOR_ID_HEADER);
+  if (config.identityCookie) {
+    const cookieConfig = resolveIdentityCookieConfig(
+      config.identityCookie,
+      request.nextUrl.protocol === 'https:'
+    );
+    const cookieValue = request.cookies.get(cookieConfig.visitorCookie)?.value;
+    visitorId = isValidVisitorId(cookieValue) ? cookieValue : null;
+
+    // Re-issued on every request so the expiry is extended server-side
+    if (issueIdentityCookie && !isBotRequest) {
+      visitorId = visitorId ?? crypto.randomUUID().replace(/-/g, '');
+      setCookie = serializeCookie(
+        cookieConfig.visitorCookie,
+        visitorId,
+        cookieConfig,
+        cookieConfig.maxAgeSeconds
+      );
+    }
+  }
+  if (visitorId) {
+    headers.set(VISITOR_ID_HEADER, visitorId);
+  }
+
+  if (!isApiRoute && isBotRequest) {
+    sendBotVisit(request, config, visitorId);
   }
   
   return {
     headers,
-    pathname
+    pathname,
+    visitorId,
+    setCookie // Append to the response as a Set-Cookie header when not null
   };
 } 
\ No newline at end of file
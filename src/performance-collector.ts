@@ -1,8 +1,10 @@
 import { onLCP, onCLS, onINP, Metric } from 'web-vitals';
 import { classifyResourcePhase as centralClassifyResourcePhase } from './resource-classification';
+import { normalizeEndpointUrl, normalizeRoutePath, resolveRouteConfig, type ResolvedRouteConfig } from './route-normalizer';
 
 export interface FlattenedPageMetrics {
   page: string;
+  route?: string;
   dns_lookup?: number;
   tcp_connect?: number;
   ttfb?: number;
@@ -323,7 +325,9 @@ function selectRepresentativeResources(resourceMap: Record<string, EnhancedResou
     });
 }
 
-export function collectPerfMetrics(): FlattenedPageMetrics | null {
+export function collectPerfMetrics(
+  routeConfig: ResolvedRouteConfig = resolveRouteConfig()
+): FlattenedPageMetrics | null {
   if (typeof window === "undefined" || !window.performance) return null;
 
   const navigation = window.performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
@@ -396,7 +400,8 @@ export function collectPerfMetrics(): FlattenedPageMetrics | null {
 
   for (const r of asyncApiResources) {
     const duration = Math.round(r.responseEnd - r.startTime);
-    const url = r.name.split('?')[0];
+    // Group /api/users/1 and /api/users/2 under one endpoint template
+    const url = normalizeEndpointUrl(r.name.split('?')[0], routeConfig);
     const domain = new URL(r.name).hostname;
 
     // Track domains
@@ -531,6 +536,7 @@ export function collectPerfMetrics(): FlattenedPageMetrics | null {
 
   return {
     page: window.location.pathname,
+    route: normalizeRoutePath(window.location.pathname, routeConfig),
     dns_lookup: dnsLookup,
     tcp_connect: tcpConnect,
     ttfb,
@@ -0,0 +1,231 @@
+import type {
+  BaseHumanEvent,
+  CampaignParameters,
+  EventProperties,
+  PerformanceEvent,
+} from "./event-types";
+
+export type ScrubDetector = "email" | "jwt" | "uuid" | "hex" | "secretParams";
+
+/**
+ * User-defined scrubbing rule
+ * A RegExp rule replaces every match (use the g flag) with replacement, default "[redacted]"
+ */
+export type ScrubRule =
+  | { pattern: RegExp; replacement?: string }
+  | ((value: string) => string);
+
+/**
+ * PII scrubbing applied to every outgoing human and performance event
+ * Enabled by default; true / false toggles all built-in detectors
+ */
+export interface ScrubConfig {
+  enabled?: boolean;
+  detectors?: Partial<Record<ScrubDetector, boolean>>; // All enabled by default
+  secretParams?: string[]; // Extra query parameter names whose values are removed
+  rules?: ScrubRule[];
+}
+
+export interface ResolvedScrubConfig {
+  detectors: Record<ScrubDetector, boolean>;
+  secretParams: string[];
+  rules: ScrubRule[];
+}
+
+export const SCRUB_PLACEHOLDERS: Record<ScrubDetector, string> = {
+  email: "[email]",
+  jwt: "[jwt]",
+  uuid: "[uuid]",
+  hex: "[hex]",
+  secretParams: "[redacted]",
+};
+
+export const DEFAULT_SECRET_PARAMS = [
+  "token",
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "auth",
+  "authorization",
+  "code",
+  "password",
+  "passwd",
+  "pwd",
+  "secret",
+  "client_secret",
+  "api_key",
+  "apikey",
+  "key",
+  "session",
+  "sessionid",
+  "sig",
+  "signature",
+  "otp",
+  "reset_token",
+  "magic_link",
+  "email",
+] as const;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+(?:@|%40)[a-z0-9.-]+\.[a-z]{2,}/gi;
+const JWT_PATTERN = /\beyJ[a-z0-9_-]{5,}\.[a-z0-9_-]{5,}\.[a-z0-9_-]*/gi;
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const LONG_HEX_PATTERN = /\b[0-9a-f]{24,}\b/gi;
+
+export function resolveScrubConfig(scrub?: boolean | ScrubConfig): ResolvedScrubConfig | null {
+  if (scrub === false) return null;
+
+  const config = scrub === true || scrub === undefined ? {} : scrub;
+  if (config.enabled === false) return null;
+
+  return {
+    detectors: {
+      email: config.detectors?.email ?? true,
+      jwt: config.detectors?.jwt ?? true,
+      uuid: config.detectors?.uuid ?? true,
+      hex: config.detectors?.hex ?? true,
+      secretParams: config.detectors?.secretParams ?? true,
+    },
+    secretParams: [...DEFAULT_SECRET_PARAMS, ...(config.secretParams ?? [])].map((name) =>
+      name.toLowerCase()
+    ),
+    rules: config.rules ?? [],
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replace PII in a single string with placeholders
+ * Secret parameters go first so their whole value is removed, not just the detected part
+ */
+export function scrubString(value: string, config: ResolvedScrubConfig): string {
+  let result = value;
+
+  if (config.detectors.secretParams && config.secretParams.length > 0) {
+    const names = config.secretParams.map(escapeRegExp).join("|");
+    result = result.replace(
+      new RegExp(`([?&#;](?:${names})=)[^&#\\s]*`, "gi"),
+      `$1${SCRUB_PLACEHOLDERS.secretParams}`
+    );
+  }
+  if (config.detectors.jwt) {
+    result = result.replace(JWT_PATTERN, SCRUB_PLACEHOLDERS.jwt);
+  }
+  if (config.detectors.email) {
+    result = result.replace(EMAIL_PATTERN, SCRUB_PLACEHOLDERS.email);
+  }
+  if (config.detectors.uuid) {
+    result = result.replace(UUID_PATTERN, SCRUB_PLACEHOLDERS.uuid);
+  }
+  if (config.detectors.hex) {
+    result = result.replace(LONG_HEX_PATTERN, SCRUB_PLACEHOLDERS.hex);
+  }
+
+  for (const rule of config.rules) {
+    try {
+      result =
+        typeof rule === "function"
+          ? rule(result)
+          : result.replace(rule.pattern, rule.replacement ?? SCRUB_PLACEHOLDERS.secretParams);
+    } catch (error) {
+      console.warn("[Analytics] Scrub rule failed:", error);
+    }
+  }
+
+  return result;
+}
+
+function scrubOptional(
+  value: string | undefined,
+  config: ResolvedScrubConfig
+): string | undefined {
+  return typeof value === "string" ? scrubString(value, config) : value;
+}
+
+// utm_* values come straight from the landing URL (emails in utm_term / utm_content are
+// common); gclid and fbclid are opaque click ids and are kept as they are
+function scrubCampaign<T extends CampaignParameters>(campaign: T, config: ResolvedScrubConfig): T {
+  return {
+    ...campaign,
+    utm_source: scrubOptional(campaign.utm_source, config),
+    utm_medium: scrubOptional(campaign.utm_medium, config),
+    utm_campaign: scrubOptional(campaign.utm_campaign, config),
+    utm_term: scrubOptional(campaign.utm_term, config),
+    utm_content: scrubOptional(campaign.utm_content, config),
+  };
+}
+
+function scrubProperties(
+  properties: EventProperties | undefined,
+  config: ResolvedScrubConfig
+): EventProperties | undefined {
+  if (!properties) return properties;
+
+  const result: EventProperties = {};
+  for (const [key, value] of Object.entries(properties)) {
+    result[key] = typeof value === "string" ? scrubString(value, config) : value;
+  }
+  return result;
+}
+
+/**
+ * Scrub the URL and free-text fields of a human event
+ * Identifiers (visitor_id, session_id, ...) are left untouched
+ */
+export function scrubHumanEvent(event: BaseHumanEvent, config: ResolvedScrubConfig): BaseHumanEvent {
+  return {
+    ...scrubCampaign(event, config),
+    path: scrubString(event.path, config),
+    route: scrubOptional(event.route, config),
+    referrer: scrubOptional(event.referrer, config),
+    entry_path: scrubOptional(event.entry_path, config),
+    landing_referrer: scrubOptional(event.landing_referrer, config),
+    previous_path: scrubOptional(event.previous_path, config),
+    target_url: scrubOptional(event.target_url, config),
+    event_properties: scrubProperties(event.event_properties, config),
+    search_term: scrubOptional(event.search_term, config),
+    error_message: scrubOptional(event.error_message, config),
+    error_stack: scrubOptional(event.error_stack, config),
+    error_source: scrubOptional(event.error_source, config),
+    first_touch: event.first_touch && {
+      ...scrubCampaign(event.first_touch, config),
+      landing_path: scrubString(event.first_touch.landing_path, config),
+    },
+    last_touch: event.last_touch && {
+      ...scrubCampaign(event.last_touch, config),
+      landing_path: scrubString(event.last_touch.landing_path, config),
+    },
+  };
+}
+
+/**
+ * Scrub page and resource URLs of a performance event
+ */
+export function scrubPerformanceEvent(
+  event: PerformanceEvent,
+  config: ResolvedScrubConfig
+): PerformanceEvent {
+  return {
+    ...event,
+    page: scrubString(event.page, config),
+    route: scrubOptional(event.route, config),
+    top_resources: event.top_resources.map((resource) => ({
+      ...resource,
+      name: scrubString(resource.name, config),
+    })),
+    async_api_slowest_endpoints: event.async_api_slowest_endpoints?.map((endpoint) => ({
+      ...endpoint,
+      url: scrubString(endpoint.url, config),
+    })),
+    async_api_slowest: event.async_api_slowest && {
+      ...event.async_api_slowest,
+      url: scrubString(event.async_api_slowest.url, config),
+    },
+    async_asset_slowest: event.async_asset_slowest?.map((asset) => ({
+      ...asset,
+      name: scrubString(asset.name, config),
+    })),
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Replace usernames with a keyed hash before they leave the browser
+ * The salt is site-provided; without it the hash could be reversed by guessing usernames
+ */
+export interface PseudonymizeConfig {
+  salt: string;
+}
+
+// 128 bits of the HMAC - collisions are negligible at any realistic user count
+const PSEUDONYM_HEX_LENGTH = 32;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * HMAC-SHA-256 of the normalized username keyed with the salt
+ * The full username is hashed, so long usernames sharing a prefix never collide
+ * Returns null when SubtleCrypto is unavailable (e.g. insecure origins)
+ */
+export async function pseudonymizeUserId(userId: string, salt: string): Promise<string | null> {
+  try {
+    if (typeof crypto === "undefined" || !crypto.subtle) {
+      console.warn("[Analytics] SubtleCrypto unavailable - usernames are not sent");
+      return null;
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(salt),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      encoder.encode(userId.trim().toLowerCase())
+    );
+
+    return `p${toHex(signature).substring(0, PSEUDONYM_HEX_LENGTH)}`;
+  } catch (error) {
+    console.warn("[Analytics] Failed to pseudonymize username:", error);
+    return null;
+  }
+}
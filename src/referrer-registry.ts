@@ -0,0 +1,201 @@
+import { TRAFFIC_CHANNELS, type CampaignParameters, type TrafficChannel } from './event-types';
+
+export type ReferrerCategory = 'SEARCH' | 'SOCIAL' | 'EMAIL' | 'AI' | 'REFERRAL';
+
+export interface ReferrerInfo {
+  name: string;
+  category: ReferrerCategory;
+}
+
+export interface TrafficClassification {
+  channel: TrafficChannel;
+  referrer_source?: string;
+}
+
+// Keys match the referrer hostname or any of its subdomains;
+// a trailing dot matches the name on any TLD (e.g. 'google.' covers google.de and google.co.uk)
+// REFERRAL entries name known sites that share a domain with a search engine or social network
+export const REFERRER_REGISTRY: Record<string, ReferrerInfo> = {
+  'chatgpt.com': { name: 'chatgpt', category: 'AI' },
+  'chat.openai.com': { name: 'chatgpt', category: 'AI' },
+  'perplexity.ai': { name: 'perplexity', category: 'AI' },
+  'claude.ai': { name: 'claude', category: 'AI' },
+  'gemini.google.com': { name: 'gemini', category: 'AI' },
+  'copilot.microsoft.com': { name: 'copilot', category: 'AI' },
+  'you.com': { name: 'you', category: 'AI' },
+  'mail.google.com': { name: 'gmail', category: 'EMAIL' },
+  'outlook.live.com': { name: 'outlook', category: 'EMAIL' },
+  'outlook.office.com': { name: 'outlook', category: 'EMAIL' },
+  'outlook.office365.com': { name: 'outlook', category: 'EMAIL' },
+  'mail.yahoo.com': { name: 'yahoo-mail', category: 'EMAIL' },
+  'mail.proton.me': { name: 'proton-mail', category: 'EMAIL' },
+  'mail.zoho.com': { name: 'zoho-mail', category: 'EMAIL' },
+  'icloud.com': { name: 'icloud-mail', category: 'EMAIL' },
+  'docs.google.com': { name: 'google-docs', category: 'REFERRAL' },
+  'drive.google.com': { name: 'google-drive', category: 'REFERRAL' },
+  'sites.google.com': { name: 'google-sites', category: 'REFERRAL' },
+  'groups.google.com': { name: 'google-groups', category: 'REFERRAL' },
+  'google.': { name: 'google', category: 'SEARCH' },
+  'bing.com': { name: 'bing', category: 'SEARCH' },
+  'duckduckgo.com': { name: 'duckduckgo', category: 'SEARCH' },
+  'search.yahoo.com': { name: 'yahoo', category: 'SEARCH' },
+  'yandex.': { name: 'yandex', category: 'SEARCH' },
+  'baidu.com': { name: 'baidu', category: 'SEARCH' },
+  'ecosia.org': { name: 'ecosia', category: 'SEARCH' },
+  'search.brave.com': { name: 'brave', category: 'SEARCH' },
+  'qwant.com': { name: 'qwant', category: 'SEARCH' },
+  'startpage.com': { name: 'startpage', category: 'SEARCH' },
+  'naver.com': { name: 'naver', category: 'SEARCH' },
+  'facebook.com': { name: 'facebook', category: 'SOCIAL' },
+  'fb.com': { name: 'facebook', category: 'SOCIAL' },
+  'instagram.com': { name: 'instagram', category: 'SOCIAL' },
+  'threads.net': { name: 'threads', category: 'SOCIAL' },
+  't.co': { name: 'twitter', category: 'SOCIAL' },
+  'twitter.com': { name: 'twitter', category: 'SOCIAL' },
+  'x.com': { name: 'twitter', category: 'SOCIAL' },
+  'linkedin.com': { name: 'linkedin', category: 'SOCIAL' },
+  'lnkd.in': { name: 'linkedin', category: 'SOCIAL' },
+  'reddit.com': { name: 'reddit', category: 'SOCIAL' },
+  'news.ycombinator.com': { name: 'hacker-news', category: 'SOCIAL' },
+  'youtube.com': { name: 'youtube', category: 'SOCIAL' },
+  'tiktok.com': { name: 'tiktok', category: 'SOCIAL' },
+  'pinterest.': { name: 'pinterest', category: 'SOCIAL' },
+  'bsky.app': { name: 'bluesky', category: 'SOCIAL' },
+  'mastodon.social': { name: 'mastodon', category: 'SOCIAL' },
+  'discord.com': { name: 'discord', category: 'SOCIAL' },
+  'slack.com': { name: 'slack', category: 'SOCIAL' },
+  'web.whatsapp.com': { name: 'whatsapp', category: 'SOCIAL' },
+  'web.telegram.org': { name: 'telegram', category: 'SOCIAL' },
+};
+
+const CATEGORY_CHANNELS: Record<ReferrerCategory, TrafficChannel> = {
+  SEARCH: TRAFFIC_CHANNELS.ORGANIC_SEARCH,
+  SOCIAL: TRAFFIC_CHANNELS.SOCIAL,
+  EMAIL: TRAFFIC_CHANNELS.EMAIL,
+  AI: TRAFFIC_CHANNELS.AI_ASSISTANT,
+  REFERRAL: TRAFFIC_CHANNELS.REFERRAL,
+};
+
+function stripWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A trailing-dot pattern only matches as the registrable domain: name.<tld>,
+// name.co.<tld> or name.com.<tld> at the end of the host, so google.evil.com does not match
+function matchesHost(hostname: string, pattern: string): boolean {
+  if (pattern.endsWith('.')) {
+    const name = escapeRegExp(pattern.slice(0, -1));
+    return new RegExp(`(^|\\.)${name}\\.(co\\.|com\\.)?[a-z]{2,}$`).test(hostname);
+  }
+  return hostname === pattern || hostname.endsWith(`.${pattern}`);
+}
+
+export function extractReferrerInfo(hostname: string): ReferrerInfo | null {
+  const host = stripWww(hostname);
+
+  // Most specific pattern first, so mail.google.com is not classified as google search
+  const sortedPatterns = Object.entries(REFERRER_REGISTRY)
+    .sort(([a], [b]) => b.length - a.length);
+
+  for (const [pattern, referrerInfo] of sortedPatterns) {
+    if (matchesHost(host, pattern)) {
+      return referrerInfo;
+    }
+  }
+
+  return null;
+}
+
+function classifyCampaign(campaign: CampaignParameters): TrafficClassification | null {
+  const source = campaign.utm_source?.toLowerCase();
+  const medium = campaign.utm_medium?.toLowerCase() ?? '';
+  // utm_source may be a hostname ("news.ycombinator.com") or a plain name ("linkedin")
+  const sourceInfo = source
+    ? extractReferrerInfo(source) ??
+      Object.values(REFERRER_REGISTRY).find((info) => info.name === source) ??
+      null
+    : null;
+  const isSocialSource = sourceInfo?.category === 'SOCIAL';
+
+  if (campaign.gclid) {
+    return { channel: TRAFFIC_CHANNELS.PAID_SEARCH, referrer_source: source ?? 'google' };
+  }
+
+  if (/^(cpc|ppc|paid|paid[_-]?search|sem)$/.test(medium)) {
+    return {
+      channel: isSocialSource ? TRAFFIC_CHANNELS.PAID_SOCIAL : TRAFFIC_CHANNELS.PAID_SEARCH,
+      referrer_source: source,
+    };
+  }
+  if (/^(paid[_-]?social|social[_-]?paid|cpm)$/.test(medium)) {
+    return { channel: TRAFFIC_CHANNELS.PAID_SOCIAL, referrer_source: source };
+  }
+  if (/^(e[_-]?mail|newsletter)$/.test(medium)) {
+    return { channel: TRAFFIC_CHANNELS.EMAIL, referrer_source: source };
+  }
+  if (/^(social|social[_-]?network|social[_-]?media|sm)$/.test(medium)) {
+    return { channel: TRAFFIC_CHANNELS.SOCIAL, referrer_source: source };
+  }
+  if (medium === 'organic') {
+    return { channel: TRAFFIC_CHANNELS.ORGANIC_SEARCH, referrer_source: source };
+  }
+  if (medium === 'referral') {
+    return { channel: TRAFFIC_CHANNELS.REFERRAL, referrer_source: source };
+  }
+
+  if (source) {
+    return {
+      channel: sourceInfo ? CATEGORY_CHANNELS[sourceInfo.category] : TRAFFIC_CHANNELS.CAMPAIGN,
+      referrer_source: sourceInfo?.name ?? source,
+    };
+  }
+
+  if (campaign.fbclid) {
+    return { channel: TRAFFIC_CHANNELS.SOCIAL, referrer_source: 'facebook' };
+  }
+
+  return null;
+}
+
+/**
+ * Classify how a visitor arrived from the referrer and campaign parameters
+ * Explicit campaign tagging wins over the referrer; same-host referrers are internal navigation
+ */
+export function classifyTraffic(
+  referrer: string | undefined,
+  campaign: CampaignParameters,
+  currentHostname: string
+): TrafficClassification {
+  let referrerHost: string | null = null;
+  if (referrer) {
+    try {
+      referrerHost = stripWww(new URL(referrer).hostname);
+    } catch {
+      referrerHost = null;
+    }
+  }
+
+  if (referrerHost && referrerHost === stripWww(currentHostname)) {
+    return { channel: TRAFFIC_CHANNELS.INTERNAL };
+  }
+
+  const campaignClassification = classifyCampaign(campaign);
+  if (campaignClassification) {
+    return campaignClassification;
+  }
+
+  if (!referrerHost) {
+    return { channel: TRAFFIC_CHANNELS.DIRECT };
+  }
+
+  const referrerInfo = extractReferrerInfo(referrerHost);
+  if (referrerInfo) {
+    return { channel: CATEGORY_CHANNELS[referrerInfo.category], referrer_source: referrerInfo.name };
+  }
+
+  return { channel: TRAFFIC_CHANNELS.REFERRAL, referrer_source: referrerHost };
+}
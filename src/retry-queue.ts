@@ -0,0 +1,289 @@
+import type { BaseHumanEvent, PerformanceEvent } from "./event-types";
+import { AnalyticsStorage, isStoragePersistent } from "./storage-utils";
+import type { DeliveryStatus } from "./transport";
+
+export type RetryPayload =
+  | { channel: "human"; payload: BaseHumanEvent }
+  | { channel: "performance"; payload: PerformanceEvent };
+
+export type RetryEntry = RetryPayload & {
+  id: string;
+  created_at: number;
+  attempts: number;
+  next_attempt_at: number;
+};
+
+export interface RetryQueueOptions {
+  maxAgeMs: number;
+  maxQueueSize: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type RetryDeliver = (entry: RetryEntry) => Promise<DeliveryStatus>;
+
+const RETRY_DB_NAME = "analytics_retry_queue";
+const RETRY_STORE_NAME = "entries";
+const RETRY_RECORD_KEY = "queue";
+const RETRY_STORAGE_KEY = "retry_queue";
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function getRetryDelay(attempts: number, options: RetryQueueOptions): number {
+  const exponential = options.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+  const capped = Math.min(options.maxDelayMs, exponential);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * Delete persisted retry entries, including those left by previous page loads
+ */
+export function deleteRetryStorage(): void {
+  AnalyticsStorage.removeItem(RETRY_STORAGE_KEY);
+
+  try {
+    if (typeof indexedDB !== "undefined") {
+      indexedDB.deleteDatabase(RETRY_DB_NAME);
+    }
+  } catch (error) {
+    console.warn("[Analytics] Failed to delete retry queue database:", error);
+  }
+}
+
+/**
+ * Durable storage for retry entries
+ * Uses IndexedDB when available, falling back to AnalyticsStorage (localStorage)
+ */
+class RetryStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private maxAgeMs: number) {}
+
+  setMaxAge(maxAgeMs: number): void {
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  async load(): Promise<RetryEntry[]> {
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        const entries = await new Promise<RetryEntry[] | undefined>((resolve, reject) => {
+          const request = db
+            .transaction(RETRY_STORE_NAME, "readonly")
+            .objectStore(RETRY_STORE_NAME)
+            .get(RETRY_RECORD_KEY);
+          request.onsuccess = () => resolve(request.result as RetryEntry[] | undefined);
+          request.onerror = () => reject(request.error);
+        });
+        return Array.isArray(entries) ? entries : [];
+      } catch (error) {
+        console.warn("[Analytics] Failed to read retry queue from IndexedDB:", error);
+      }
+    }
+
+    return AnalyticsStorage.getItem<RetryEntry[]>(RETRY_STORAGE_KEY) ?? [];
+  }
+
+  async save(entries: RetryEntry[]): Promise<void> {
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const transaction = db.transaction(RETRY_STORE_NAME, "readwrite");
+          transaction.objectStore(RETRY_STORE_NAME).put(entries, RETRY_RECORD_KEY);
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        });
+        return;
+      } catch (error) {
+        console.warn("[Analytics] Failed to write retry queue to IndexedDB:", error);
+      }
+    }
+
+    if (entries.length === 0) {
+      AnalyticsStorage.removeItem(RETRY_STORAGE_KEY);
+    } else {
+      AnalyticsStorage.setItem(RETRY_STORAGE_KEY, entries, this.maxAgeMs);
+    }
+  }
+
+  // Close the open connection first, otherwise the deletion is blocked
+  async destroy(): Promise<void> {
+    const db = this.dbPromise ? await this.dbPromise : null;
+    db?.close();
+    this.dbPromise = null;
+    deleteRetryStorage();
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    // Nothing may be persisted in cookieless mode or before consent
+    if (!isStoragePersistent()) return Promise.resolve(null);
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      try {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(RETRY_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(RETRY_STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Persistent queue for client events whose delivery failed
+ * Retries with exponential backoff while online and drains when the browser comes back online
+ * Entries older than maxAgeMs are discarded and the queue never exceeds maxQueueSize
+ */
+export class RetryQueue {
+  private store: RetryStore;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private operation: Promise<void> = Promise.resolve();
+
+  constructor(
+    private options: RetryQueueOptions,
+    private deliver: RetryDeliver
+  ) {
+    this.store = new RetryStore(options.maxAgeMs);
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", this.handleOnline);
+      // Pick up anything left over from previous page loads
+      this.scheduleDrain(0);
+    }
+  }
+
+  setOptions(options: RetryQueueOptions): void {
+    this.options = options;
+    this.store.setMaxAge(options.maxAgeMs);
+  }
+
+  add(entry: RetryPayload): void {
+    const now = Date.now();
+    const retryEntry: RetryEntry = {
+      ...entry,
+      id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      created_at: now,
+      attempts: 1,
+      next_attempt_at: now + getRetryDelay(1, this.options),
+    };
+
+    this.enqueueOperation(async () => {
+      const entries = this.prune(await this.store.load());
+      entries.push(retryEntry);
+
+      // Drop the oldest entries once the queue is full
+      const overflow = entries.length - this.options.maxQueueSize;
+      await this.store.save(overflow > 0 ? entries.slice(overflow) : entries);
+      this.scheduleDrain(retryEntry.next_attempt_at - now);
+    });
+  }
+
+  drain(): Promise<void> {
+    return this.enqueueOperation(async () => {
+      if (!this.isOnline()) return;
+
+      const now = Date.now();
+      const remaining: RetryEntry[] = [];
+
+      for (const entry of this.prune(await this.store.load())) {
+        if (entry.next_attempt_at > now || !this.isOnline()) {
+          remaining.push(entry);
+          continue;
+        }
+
+        let status: DeliveryStatus;
+        try {
+          status = await this.deliver(entry);
+        } catch {
+          status = "retryable";
+        }
+
+        if (status === "retryable") {
+          const attempts = entry.attempts + 1;
+          remaining.push({
+            ...entry,
+            attempts,
+            next_attempt_at: Date.now() + getRetryDelay(attempts, this.options),
+          });
+        }
+      }
+
+      await this.store.save(remaining);
+
+      if (remaining.length > 0) {
+        const nextAttempt = Math.min(...remaining.map((entry) => entry.next_attempt_at));
+        this.scheduleDrain(nextAttempt - Date.now());
+      }
+    });
+  }
+
+  /**
+   * Discard every pending entry and its persisted storage
+   */
+  clear(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    return this.enqueueOperation(() => this.store.destroy());
+  }
+
+  private prune(entries: RetryEntry[]): RetryEntry[] {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    return entries.filter((entry) => entry.created_at >= cutoff);
+  }
+
+  private scheduleDrain(delayMs: number): void {
+    if (typeof window === "undefined") return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.drain();
+    }, Math.max(0, delayMs));
+  }
+
+  // Serialize storage access so concurrent adds and drains never overwrite each other
+  private enqueueOperation(operation: () => Promise<void>): Promise<void> {
+    this.operation = this.operation.then(operation).catch((error) => {
+      console.warn("[Analytics] Retry queue operation failed:", error);
+    });
+    return this.operation;
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === "undefined" || navigator.onLine !== false;
+  }
+
+  private handleOnline = () => {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    // Reset backoff - connectivity just came back
+    this.enqueueOperation(async () => {
+      const now = Date.now();
+      const entries = await this.store.load();
+      await this.store.save(entries.map((entry) => ({ ...entry, next_attempt_at: now })));
+    });
+    void this.drain();
+  };
+}
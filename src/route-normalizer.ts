@@ -0,0 +1,147 @@
+/**
+ * Route templates reported as `route` next to the concrete path
+ * manifest entries are templates ("/users/[id]") or app directory files
+ * ("app/(shop)/users/[id]/page.tsx"); unmatched paths fall back to heuristics
+ */
+export interface RouteConfig {
+  manifest?: string[];
+  heuristics?: boolean; // Collapse numeric, UUID and long hex segments - default true
+}
+
+type RouteSegment =
+  | { kind: "static"; value: string }
+  | { kind: "dynamic" }
+  | { kind: "catchAll"; optional: boolean };
+
+interface CompiledRoute {
+  template: string;
+  segments: RouteSegment[];
+}
+
+export interface ResolvedRouteConfig {
+  routes: CompiledRoute[]; // Most specific first
+  heuristics: boolean;
+}
+
+const APP_DIR_FILE_PATTERN =
+  /^(?:\.\/)?(?:src\/)?app((?:\/.*)?)\/(?:page|route)\.(?:tsx|ts|jsx|js|mdx)$/;
+const INTERCEPTING_PREFIX = /^(?:\(\.{1,3}\))+/;
+const ROUTE_GROUP = /^\([^)]*\)$/;
+
+const NUMERIC_SEGMENT = /^\d+$/;
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_SEGMENT = /^[0-9a-f]{16,}$/i;
+
+/**
+ * Convert a manifest entry to a URL template
+ * App directory files lose the app/ prefix, the page/route file, route groups,
+ * parallel route slots and intercepting route markers
+ */
+export function toRouteTemplate(entry: string): string {
+  const appDirMatch = entry.trim().match(APP_DIR_FILE_PATTERN);
+  const path = appDirMatch ? appDirMatch[1] : entry.trim();
+
+  const segments = path
+    .split(/[?#]/)[0]
+    .split("/")
+    .map((segment) => segment.replace(INTERCEPTING_PREFIX, ""))
+    .filter(
+      (segment) => segment !== "" && !ROUTE_GROUP.test(segment) && !segment.startsWith("@")
+    );
+
+  return `/${segments.join("/")}`;
+}
+
+function compileSegment(segment: string): RouteSegment {
+  if (/^\[\[\.\.\.[^\]]+\]\]$/.test(segment)) return { kind: "catchAll", optional: true };
+  if (/^\[\.\.\.[^\]]+\]$/.test(segment)) return { kind: "catchAll", optional: false };
+  if (/^\[[^\]]+\]$/.test(segment)) return { kind: "dynamic" };
+  return { kind: "static", value: segment };
+}
+
+// Static beats dynamic, which beats catch-all, which beats optional catch-all
+function segmentRank(segment: RouteSegment | undefined): number {
+  if (!segment) return -1;
+  if (segment.kind === "static") return 3;
+  if (segment.kind === "dynamic") return 2;
+  return segment.optional ? 0 : 1;
+}
+
+function compareSpecificity(a: CompiledRoute, b: CompiledRoute): number {
+  const length = Math.max(a.segments.length, b.segments.length);
+  for (let i = 0; i < length; i++) {
+    const difference = segmentRank(b.segments[i]) - segmentRank(a.segments[i]);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+export function resolveRouteConfig(routes?: RouteConfig): ResolvedRouteConfig {
+  const templates = new Set((routes?.manifest ?? []).map(toRouteTemplate));
+  const compiled = Array.from(templates).map((template) => ({
+    template,
+    segments: template.split("/").filter(Boolean).map(compileSegment),
+  }));
+
+  return {
+    routes: compiled.sort(compareSpecificity),
+    heuristics: routes?.heuristics ?? true,
+  };
+}
+
+function matchesRoute(pathSegments: string[], route: CompiledRoute): boolean {
+  for (let i = 0; i < route.segments.length; i++) {
+    const segment = route.segments[i];
+
+    // Catch-all segments are always last and consume the rest of the path
+    if (segment.kind === "catchAll") {
+      return segment.optional || pathSegments.length > i;
+    }
+    if (i >= pathSegments.length) return false;
+    if (segment.kind === "static" && segment.value !== pathSegments[i]) return false;
+  }
+
+  return pathSegments.length === route.segments.length;
+}
+
+function collapseSegment(segment: string): string {
+  if (NUMERIC_SEGMENT.test(segment)) return "[id]";
+  if (UUID_SEGMENT.test(segment)) return "[uuid]";
+  if (HEX_SEGMENT.test(segment)) return "[hash]";
+  return segment;
+}
+
+/**
+ * Route template for a path: the most specific manifest match, otherwise the path
+ * with id-like segments collapsed (or unchanged when heuristics are disabled)
+ */
+export function normalizeRoutePath(
+  path: string,
+  config: ResolvedRouteConfig,
+  useManifest: boolean = true
+): string {
+  const pathname = path.split(/[?#]/)[0] || "/";
+  const segments = pathname.split("/").filter(Boolean);
+
+  if (useManifest) {
+    const route = config.routes.find((candidate) => matchesRoute(segments, candidate));
+    if (route) return route.template;
+  }
+
+  if (!config.heuristics) return pathname;
+  return `/${segments.map(collapseSegment).join("/")}`;
+}
+
+/**
+ * Normalize the path of a request URL, keeping its origin
+ * The manifest only describes this site, so other origins get heuristics only
+ */
+export function normalizeEndpointUrl(url: string, config: ResolvedRouteConfig): string {
+  try {
+    const parsed = new URL(url, window.location.href);
+    const sameOrigin = parsed.origin === window.location.origin;
+    return `${parsed.origin}${normalizeRoutePath(parsed.pathname, config, sameOrigin)}`;
+  } catch {
+    return normalizeRoutePath(url, config, false);
+  }
+}
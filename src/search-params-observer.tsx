@@ -0,0 +1,24 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useEffect } from "react";
+
+export interface SearchParamsObserverProps {
+  onChange: (search: string) => void;
+}
+
+/**
+ * Reports the current query string to VisitorTracker
+ * useSearchParams suspends during static rendering, so this must render inside a
+ * Suspense boundary to keep the rest of the page statically rendered
+ */
+export function SearchParamsObserver({ onChange }: SearchParamsObserverProps) {
+  const searchParams = useSearchParams();
+  const search = searchParams?.toString() ?? "";
+
+  useEffect(() => {
+    onChange(search);
+  }, [search, onChange]);
+
+  return null;
+}
@@ -1,179 +1,375 @@
 import type { NextRequest } from "next/server";
-import type { BaseHumanEvent, BotEvent, PerformanceEvent } from "./event-types";
+import type { BaseHumanEvent, BotEvent, EventBatch, PerformanceEvent } from "./event-types";
 import { getSiteIdWithFallback } from "./analytics-host-utils";
+import {
+  getEndpointUrl,
+  resolveAnalyticsConfig,
+  type AnalyticsConfig,
+  type ResolvedAnalyticsConfig,
+} from "./analytics-config";
+import { applyBeforeSend } from "./before-send";
 import { extractBotInfo } from "./bot-registry";
+import { bufferUntilConsent, getConsentStatus, onConsentChange } from "./consent";
+import { EventQueue } from "./event-queue";
+import { scrubHumanEvent, scrubPerformanceEvent } from "./pii-scrubber";
+import { deleteRetryStorage, RetryQueue, type RetryPayload } from "./retry-queue";
+import {
+  BeaconTransport,
+  FetchTransport,
+  type DeliveryStatus,
+  type Transport,
+  type TransportPayload,
+  type TransportRequest,
+} from "./transport";
 import { sdk_version } from "./version";
 
 /**
- * Send analytics event using standard fetch with timeout
+ * Per-call delivery options
+ * keepalive marks events sent while the page may be unloading (e.g. outbound link clicks)
  */
-export async function sendHumanEvent(payload: BaseHumanEvent): Promise<void> {
-  const endpoint = "https://analytics.jillen.com/api/human";
-  const payloadWithVersion: BaseHumanEvent = {
-    ...payload,
-    sdk_version,
-  };
-  const data = JSON.stringify(payloadWithVersion);
+export interface SendOptions {
+  keepalive?: boolean;
+}
 
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      mode: "cors",
-      body: data,
-      signal: controller.signal,
-    });
+const fetchTransport = new FetchTransport();
+const beaconTransport = new BeaconTransport();
 
-    clearTimeout(timeoutId);
+// Shared client-side queue, created on first use when batching is enabled
+let eventQueue: EventQueue | null = null;
+let eventQueueConfig: ResolvedAnalyticsConfig | null = null;
 
-    if (!response.ok) {
-      console.error(
-        `[Analytics] Server endpoint error: ${response.status} ${response.statusText} - human event failed`
-      );
-      return;
-    }
-  } catch (error) {
-    if (error instanceof TypeError) {
-      if (error.message.includes("fetch failed") || error.message.includes("network")) {
-        console.error("[Analytics] Network connectivity error in human event:", error.message);
-      } else {
-        console.error("[Analytics] Request configuration error in human event:", error.message);
-      }
-    } else if (error instanceof DOMException && error.name === "AbortError") {
-      console.error("[Analytics] Human event request timeout after 30 seconds");
-    } else if (error instanceof Error) {
-      console.error("[Analytics] Human event error:", error.name, error.message);
+// Shared persistent retry queue, created on the first send when retry is enabled
+let retryQueue: RetryQueue | null = null;
+let retryQueueConfig: ResolvedAnalyticsConfig | null = null;
+
+// Withdrawn analytics consent discards queued events and persisted retries
+onConsentChange((state, previous) => {
+  if (state.analytics === "denied" && previous.analytics !== "denied") {
+    eventQueue?.clear();
+    if (retryQueue) {
+      void retryQueue.clear();
     } else {
-      console.error("[Analytics] Unknown error in human event:", error);
+      deleteRetryStorage();
     }
-    // Silent fail - never break the application
-    return;
   }
+});
+
+/**
+ * Beacons are only used for batches, whose endpoint parses text/plain bodies
+ * Single keepalive events use fetch with keepalive, so /api/human keeps receiving JSON
+ */
+function getTransport(config: ResolvedAnalyticsConfig, request: TransportRequest): Transport {
+  if (config.transport) {
+    return config.transport;
+  }
+  return request.keepalive && request.channel === "batch" ? beaconTransport : fetchTransport;
 }
 
 /**
- * Send performance metrics using standard fetch with timeout
+ * Build a transport request for a payload on its collector endpoint
  */
-export async function sendPerformanceEvent(payload: PerformanceEvent): Promise<void> {
-  const endpoint = "https://analytics.jillen.com/api/perf";
-  const payloadWithVersion: PerformanceEvent = {
-    ...payload,
-    sdk_version,
+function createRequest(
+  event: TransportPayload,
+  config: ResolvedAnalyticsConfig,
+  keepalive: boolean,
+  extraHeaders: Record<string, string> = {}
+): TransportRequest {
+  return {
+    ...event,
+    url: getEndpointUrl(config, event.channel),
+    body: JSON.stringify(event.payload),
+    headers: {
+      "Content-Type": "application/json",
+      ...extraHeaders,
+      ...config.headers,
+    },
+    timeoutMs: config.timeoutMs,
+    keepalive,
   };
-  const data = JSON.stringify(payloadWithVersion);
+}
 
+async function deliver(
+  request: TransportRequest,
+  config: ResolvedAnalyticsConfig
+): Promise<DeliveryStatus> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      mode: "cors",
-      body: data,
-      signal: controller.signal,
+    return await getTransport(config, request).send(request);
+  } catch (error) {
+    // Custom transports may not honour the never-throw contract
+    console.error("[Analytics] Transport error:", error);
+    return "retryable";
+  }
+}
+
+function getEventQueue(config: ResolvedAnalyticsConfig): EventQueue | null {
+  if (!config.batch.enabled || typeof window === "undefined") {
+    return null;
+  }
+
+  eventQueueConfig = config;
+  const options = {
+    maxSize: config.batch.maxSize,
+    flushIntervalMs: config.batch.flushIntervalMs,
+  };
+
+  if (!eventQueue) {
+    eventQueue = new EventQueue(options, (batch, useBeacon) => {
+      if (eventQueueConfig) {
+        void sendEventBatch(batch, eventQueueConfig, useBeacon);
+      }
     });
+  } else {
+    eventQueue.setOptions(options);
+  }
 
-    clearTimeout(timeoutId);
+  return eventQueue;
+}
 
-    if (!response.ok) {
-      console.error(
-        `[Performance] Server endpoint error: ${response.status} ${response.statusText} - performance event failed`
-      );
-      return;
+function getRetryQueue(config: ResolvedAnalyticsConfig): RetryQueue | null {
+  if (!config.retry.enabled || typeof window === "undefined") {
+    return null;
+  }
+
+  retryQueueConfig = config;
+  const options = {
+    maxAgeMs: config.retry.maxAgeMs,
+    maxQueueSize: config.retry.maxQueueSize,
+    baseDelayMs: config.retry.baseDelayMs,
+    maxDelayMs: config.retry.maxDelayMs,
+  };
+
+  if (!retryQueue) {
+    retryQueue = new RetryQueue(options, async (entry) => {
+      const activeConfig = retryQueueConfig ?? config;
+      const event: TransportPayload =
+        entry.channel === "human"
+          ? { channel: "human", payload: entry.payload }
+          : { channel: "performance", payload: entry.payload };
+      return deliver(createRequest(event, activeConfig, false), activeConfig);
+    });
+  } else {
+    retryQueue.setOptions(options);
+  }
+
+  return retryQueue;
+}
+
+/**
+ * Create the retry queue up front, so entries left by previous page loads are delivered
+ * and the online listener is attached before anything fails in this page
+ */
+function startRetryQueue(config: ResolvedAnalyticsConfig): void {
+  try {
+    getRetryQueue(config);
+  } catch (error) {
+    console.error("[Analytics] Failed to start event retry queue:", error);
+  }
+}
+
+function scheduleRetry(entries: RetryPayload[], config: ResolvedAnalyticsConfig): void {
+  try {
+    const queue = getRetryQueue(config);
+    if (!queue) return;
+
+    for (const entry of entries) {
+      queue.add(entry);
     }
   } catch (error) {
-    if (error instanceof TypeError) {
-      if (error.message.includes("fetch failed") || error.message.includes("network")) {
-        console.error(
-          "[Performance] Network connectivity error in performance event:",
-          error.message
-        );
-      } else {
-        console.error(
-          "[Performance] Request configuration error in performance event:",
-          error.message
-        );
-      }
-    } else if (error instanceof DOMException && error.name === "AbortError") {
-      console.error("[Performance] Performance event request timeout after 30 seconds");
-    } else if (error instanceof Error) {
-      console.error("[Performance] Performance event error:", error.name, error.message);
-    } else {
-      console.error("[Performance] Unknown error in performance event:", error);
+    console.error("[Analytics] Failed to schedule event retry:", error);
+  }
+}
+
+function getBatchRetryEntries(batch: EventBatch): RetryPayload[] {
+  return [
+    ...batch.human_events.map((payload): RetryPayload => ({ channel: "human", payload })),
+    ...batch.performance_events.map(
+      (payload): RetryPayload => ({ channel: "performance", payload })
+    ),
+  ];
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/**
+ * Immediately send any queued events
+ * No-op when batching is disabled or the queue is empty
+ */
+export function flushEventQueue(useBeacon: boolean = false): void {
+  eventQueue?.flush(useBeacon);
+}
+
+/**
+ * Send a batch of queued client events, using a beacon-safe transport on page hide
+ */
+async function sendEventBatch(
+  batch: EventBatch,
+  config: ResolvedAnalyticsConfig,
+  useBeacon: boolean
+): Promise<void> {
+  const batchWithVersion: EventBatch = { ...batch, sdk_version };
+
+  const status = isOffline()
+    ? "retryable"
+    : await deliver(
+        createRequest({ channel: "batch", payload: batchWithVersion }, config, useBeacon),
+        config
+      );
+  if (status === "retryable") {
+    // Keep the events for a later retry, never break the application
+    scheduleRetry(getBatchRetryEntries(batch), config);
+  }
+}
+
+/**
+ * Send analytics event through the configured transport after the beforeSend chain
+ * Held in memory until analytics consent is granted, and dropped if it is denied
+ * Queued for the next batch instead when batching is enabled (flushed at once for keepalive)
+ * Failed deliveries are persisted and retried later when retry is enabled
+ */
+export async function sendHumanEvent(
+  payload: BaseHumanEvent,
+  config?: AnalyticsConfig,
+  options: SendOptions = {}
+): Promise<void> {
+  const consent = getConsentStatus("analytics");
+  if (consent === "denied") return;
+  if (consent === "pending") {
+    bufferUntilConsent("analytics", () => sendHumanEvent(payload, config, options));
+    return;
+  }
+
+  const resolvedConfig = resolveAnalyticsConfig(config);
+  startRetryQueue(resolvedConfig);
+  const processed = await applyBeforeSend(
+    payload,
+    "human",
+    resolvedConfig.beforeSend,
+    resolvedConfig.beforeSendTimeoutMs
+  );
+  if (!processed) return;
+
+  // Scrub last so nothing added by beforeSend hooks slips through
+  const scrubbed = resolvedConfig.scrub
+    ? scrubHumanEvent(processed, resolvedConfig.scrub)
+    : processed;
+
+  const payloadWithVersion: BaseHumanEvent = {
+    ...scrubbed,
+    sdk_version,
+  };
+
+  const keepalive = options.keepalive === true;
+  const queue = getEventQueue(resolvedConfig);
+  if (queue) {
+    queue.enqueueHuman(payloadWithVersion);
+    if (keepalive) {
+      queue.flush(true);
     }
-    // Silent fail - never break the application
     return;
   }
+
+  const status = isOffline()
+    ? "retryable"
+    : await deliver(
+        createRequest({ channel: "human", payload: payloadWithVersion }, resolvedConfig, keepalive),
+        resolvedConfig
+      );
+  if (status === "retryable") {
+    scheduleRetry([{ channel: "human", payload: payloadWithVersion }], resolvedConfig);
+  }
 }
 
 /**
- * Internal function to send bot tracking events using standard fetch with timeout
- * Used only by sendBotVisit within this module
+ * Send performance metrics through the configured transport after the beforeSend chain
+ * Held in memory until performance consent is granted, and dropped if it is denied
+ * Queued for the next batch instead when batching is enabled
+ * Failed deliveries are persisted and retried later when retry is enabled
  */
-async function sendBotEvent(payload: BotEvent): Promise<void> {
-  const payloadWithVersion: BotEvent = {
-    ...payload,
+export async function sendPerformanceEvent(
+  payload: PerformanceEvent,
+  config?: AnalyticsConfig
+): Promise<void> {
+  const consent = getConsentStatus("performance");
+  if (consent === "denied") return;
+  if (consent === "pending") {
+    bufferUntilConsent("performance", () => sendPerformanceEvent(payload, config));
+    return;
+  }
+
+  const resolvedConfig = resolveAnalyticsConfig(config);
+  startRetryQueue(resolvedConfig);
+  const processed = await applyBeforeSend(
+    payload,
+    "performance",
+    resolvedConfig.beforeSend,
+    resolvedConfig.beforeSendTimeoutMs
+  );
+  if (!processed) return;
+
+  const scrubbed = resolvedConfig.scrub
+    ? scrubPerformanceEvent(processed, resolvedConfig.scrub)
+    : processed;
+
+  const payloadWithVersion: PerformanceEvent = {
+    ...scrubbed,
     sdk_version,
   };
 
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    const response = await fetch("https://analytics.jillen.com/api/bot", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": "Jillen-Analytics-SDK/1.0",
-      },
-      mode: "cors",
-      body: JSON.stringify(payloadWithVersion),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+  const queue = getEventQueue(resolvedConfig);
+  if (queue) {
+    queue.enqueuePerformance(payloadWithVersion);
+    return;
+  }
 
-    if (!response.ok) {
-      console.error(
-        `[Jillen.Analytics] Server endpoint error: ${response.status} ${response.statusText} - bot tracking failed`
+  const status = isOffline()
+    ? "retryable"
+    : await deliver(
+        createRequest(
+          { channel: "performance", payload: payloadWithVersion },
+          resolvedConfig,
+          false
+        ),
+        resolvedConfig
       );
-      return;
-    }
-  } catch (error) {
-    // Log specific error types for debugging
-    if (error instanceof TypeError) {
-      if (error.message.includes("fetch failed") || error.message.includes("network")) {
-        console.error(
-          "[Jillen.Analytics] Network connectivity error in bot tracking:",
-          error.message
-        );
-      } else {
-        console.error(
-          "[Jillen.Analytics] Request configuration error in bot tracking:",
-          error.message
-        );
-      }
-    } else if (error instanceof DOMException && error.name === "AbortError") {
-      console.error("[Jillen.Analytics] Bot tracking request timeout after 30 seconds");
-    } else if (error instanceof Error) {
-      console.error("[Jillen.Analytics] Bot tracking error:", error.name, error.message);
-    } else {
-      console.error("[Jillen.Analytics] Unknown error in bot tracking:", error);
-    }
-    // Silent fail - never break the application
-    return;
+  if (status === "retryable") {
+    scheduleRetry([{ channel: "performance", payload: payloadWithVersion }], resolvedConfig);
   }
 }
 
-export function sendBotVisit(request: NextRequest): void {
+/**
+ * Internal function to send bot tracking events through the configured transport
+ * Used only by sendBotVisit within this module
+ */
+async function sendBotEvent(payload: BotEvent, config?: AnalyticsConfig): Promise<void> {
+  const resolvedConfig = resolveAnalyticsConfig(config);
+  const processed = await applyBeforeSend(
+    payload,
+    "bot",
+    resolvedConfig.beforeSend,
+    resolvedConfig.beforeSendTimeoutMs
+  );
+  if (!processed) return;
+
+  const payloadWithVersion: BotEvent = {
+    ...processed,
+    sdk_version,
+  };
+
+  await deliver(
+    createRequest({ channel: "bot", payload: payloadWithVersion }, resolvedConfig, false, {
+      "User-Agent": "Jillen-Analytics-SDK/1.0",
+    }),
+    resolvedConfig
+  );
+}
+
+export function sendBotVisit(
+  request: NextRequest,
+  config?: AnalyticsConfig,
+  visitorId?: string | null
+): void {
   void (async () => {
     try {
       // Extract data from request headers
@@ -189,10 +385,11 @@ export function sendBotVisit(request: NextRequest): void {
         bot_name: botInfo.name,
         bot_category: botInfo.category,
         timestamp: new Date().toISOString(),
+        visitor_id: visitorId ?? undefined,
       };
 
       // Send the event
-      await sendBotEvent(botPayload);
+      await sendBotEvent(botPayload, config);
     } catch (error) {
       console.error("[Jillen.Analytics] Error in trackBotVisit:", error);
     }
@@ -1 +1,16 @@
-export { setupAnalyticsMiddleware } from './middleware-utils';
+export { setDailySaltHeader, setupAnalyticsMiddleware } from './middleware-utils';
+export type { AnalyticsMiddlewareOptions } from './middleware-utils';
+export { DAILY_SALT_HEADER, deriveDailySalt } from './daily-salt';
+export { VISITOR_ID_HEADER } from './cookie-storage';
+export type { IdentityCookieConfig } from './cookie-storage';
+export { FetchTransport, MemoryTransport } from './transport';
+export type {
+  DeliveryStatus,
+  Transport,
+  TransportPayload,
+  TransportRequest,
+} from './transport';
+export type { AnalyticsConfig, EventChannel } from './analytics-config';
+export { isBotEvent } from './event-types';
+export type { BotEvent } from './event-types';
+export type { BeforeSendContext, BeforeSendHook, OutgoingEvent } from './before-send';
@@ -0,0 +1,90 @@
+import type { BaseHumanEvent } from "./event-types";
+import { getSessionItem, setSessionItem } from "./session-store";
+
+/**
+ * Session-wide attributes, shared by every tab of the session
+ */
+interface SessionJourneyState {
+  entry_path: string;
+  landing_referrer?: string;
+  pageview_count: number;
+}
+
+export type SessionJourneyFields = Pick<
+  BaseHumanEvent,
+  "entry_path" | "landing_referrer" | "pageview_index" | "previous_path" | "session_elapsed_ms"
+>;
+
+/**
+ * Where the session started and where this tab is within it
+ * The entry page, landing referrer and page view count belong to the session; the
+ * current page view index and previous path belong to the tab, so path flows stay per tab
+ */
+export class SessionJourney {
+  private sessionId: string | null = null;
+  private pageviewIndex = 0;
+  private currentPath: string | undefined;
+  private previousPath: string | undefined;
+
+  recordPageview(sessionId: string, path: string, referrer?: string): void {
+    this.syncSession(sessionId);
+
+    const state = this.getState(sessionId, path, referrer);
+    state.pageview_count += 1;
+    setSessionItem(`journey_${sessionId}`, state);
+
+    this.pageviewIndex = state.pageview_count;
+    if (this.currentPath !== undefined) {
+      this.previousPath = this.currentPath;
+    }
+    this.currentPath = path;
+  }
+
+  /**
+   * Fields attached to every event; pageview_index is 0 before the first page view
+   */
+  getFields(
+    sessionId: string,
+    path: string,
+    referrer: string | undefined,
+    sessionStartTime: string,
+    now: number = Date.now()
+  ): SessionJourneyFields {
+    this.syncSession(sessionId);
+
+    const state = this.getState(sessionId, path, referrer);
+    const startedAt = Date.parse(sessionStartTime);
+
+    return {
+      entry_path: state.entry_path,
+      landing_referrer: state.landing_referrer,
+      pageview_index: this.pageviewIndex,
+      previous_path: this.previousPath,
+      session_elapsed_ms: Number.isNaN(startedAt) ? undefined : Math.max(0, now - startedAt),
+    };
+  }
+
+  private syncSession(sessionId: string): void {
+    if (sessionId === this.sessionId) return;
+
+    this.sessionId = sessionId;
+    this.pageviewIndex = 0;
+    this.currentPath = undefined;
+    this.previousPath = undefined;
+  }
+
+  // The first event of a session defines its entry path and landing referrer
+  private getState(sessionId: string, path: string, referrer?: string): SessionJourneyState {
+    const storageKey = `journey_${sessionId}`;
+    const stored = getSessionItem<SessionJourneyState>(storageKey);
+    if (stored) return stored;
+
+    const state: SessionJourneyState = {
+      entry_path: path,
+      landing_referrer: referrer,
+      pageview_count: 0,
+    };
+    setSessionItem(storageKey, state);
+    return state;
+  }
+}
@@ -0,0 +1,123 @@
+import { clearSessionCookie, readSessionCookie, writeSessionCookie } from "./cookie-storage";
+import { isCookieless } from "./identity";
+import { AnalyticsSessionStorage, AnalyticsStorage } from "./storage-utils";
+
+/**
+ * Session state shared by every tab of the origin
+ * last_activity is the single inactivity clock: activity in any tab keeps the session alive
+ */
+export interface SessionData {
+  session_id: string;
+  last_activity: number;
+  started_at?: string; // ISO datetime
+}
+
+export const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+const SESSION_KEY = "session_data";
+
+// Session-scoped state is keyed by session id, so it can outlive the session itself
+const SESSION_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// The session record outlives the inactivity timeout, so a timed-out session is still
+// seen as timed out rather than as missing; last_activity decides whether it is active
+const SESSION_RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Activity fires every few hundred ms; the 30-minute clock does not need that precision
+// and every write wakes the other tabs with a storage event
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+/**
+ * Cookieless mode keeps nothing in localStorage, so sessions stay scoped to the tab
+ */
+function isSharedSession(): boolean {
+  return !isCookieless();
+}
+
+export function readSession(): SessionData | null {
+  if (!isSharedSession()) {
+    return AnalyticsSessionStorage.getItem<SessionData>(SESSION_KEY);
+  }
+
+  // A tab-scoped session from before sessions were shared is adopted rather than restarted
+  const stored =
+    AnalyticsStorage.getItem<SessionData>(SESSION_KEY) ??
+    AnalyticsSessionStorage.getItem<SessionData>(SESSION_KEY);
+
+  // With the identity cookie, activity on another subdomain may be more recent
+  const cookie = readSessionCookie();
+  if (cookie && (!stored || cookie.last_activity > stored.last_activity)) {
+    return { ...cookie, started_at: cookie.started_at ?? stored?.started_at };
+  }
+  return stored;
+}
+
+export function writeSession(session: SessionData): void {
+  if (!isSharedSession()) {
+    AnalyticsSessionStorage.setItem(SESSION_KEY, session);
+    return;
+  }
+
+  AnalyticsStorage.setItem(SESSION_KEY, session, SESSION_RECORD_TTL_MS);
+  writeSessionCookie(session);
+}
+
+export function clearSession(): void {
+  AnalyticsStorage.removeItem(SESSION_KEY);
+  AnalyticsSessionStorage.removeItem(SESSION_KEY);
+  clearSessionCookie();
+}
+
+/**
+ * Per-session state (goal completions, funnel progress, ...) stored next to the session,
+ * so every tab sharing the session sees it
+ */
+export function getSessionItem<T>(key: string): T | null {
+  return isSharedSession()
+    ? AnalyticsStorage.getItem<T>(key)
+    : AnalyticsSessionStorage.getItem<T>(key);
+}
+
+export function setSessionItem<T>(key: string, value: T): void {
+  if (isSharedSession()) {
+    AnalyticsStorage.setItem(key, value, SESSION_STATE_TTL_MS);
+  } else {
+    AnalyticsSessionStorage.setItem(key, value);
+  }
+}
+
+/**
+ * The current session if it has not timed out, otherwise null
+ * A timed-out session is left in place until its session_end has been reported
+ */
+export function getActiveSession(now: number = Date.now()): SessionData | null {
+  const session = readSession();
+  if (!session?.session_id) return null;
+
+  return now - session.last_activity < SESSION_TIMEOUT_MS ? session : null;
+}
+
+/**
+ * Record activity on the shared inactivity clock
+ */
+export function touchSession(now: number = Date.now()): void {
+  const session = readSession();
+  if (!session) return;
+  if (now - session.last_activity < ACTIVITY_WRITE_INTERVAL_MS) return;
+
+  writeSession({ ...session, last_activity: now });
+}
+
+/**
+ * Claim the session_end report for the session's current activity
+ * Returns false when this or another tab already reported it and the session has had
+ * no activity since, e.g. a timeout after the last tab was closed
+ */
+export function claimSessionEnd(session: SessionData): boolean {
+  const storageKey = `session_end_${session.session_id}`;
+  const endedAt = getSessionItem<number>(storageKey);
+  if (endedAt !== null && endedAt >= session.last_activity) return false;
+
+  setSessionItem(storageKey, session.last_activity);
+  return true;
+}
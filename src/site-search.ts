@@ -0,0 +1,83 @@
+import { matchesPath } from "./goals";
+
+/**
+ * On-site search tracking
+ * - path: search results page - exact path, a * wildcard pattern or a RegExp
+ * - queryParams: parameters holding the search term, first non-empty one wins
+ * - getResultCount: number of results for a term; may be async once results have loaded
+ */
+export interface SiteSearchConfig {
+  path: string | RegExp;
+  queryParams?: string[]; // Default: ["q"]
+  getResultCount?: (term: string) => number | null | undefined | Promise<number | null | undefined>;
+  resultCountTimeoutMs?: number; // Default: 5000
+}
+
+export const SEARCH_TERM_MAX_LENGTH = 100;
+
+const RESULT_COUNT_TIMEOUT = Symbol("resultCountTimeout");
+
+/**
+ * Lowercase, trim and collapse whitespace so equivalent searches are counted together
+ */
+export function normalizeSearchTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, " ").substring(0, SEARCH_TERM_MAX_LENGTH);
+}
+
+/**
+ * Normalized search term for the current page, or null when it is not a search
+ */
+export function getSearchTerm(
+  pathname: string,
+  search: string,
+  config: SiteSearchConfig
+): string | null {
+  if (!matchesPath(config.path, pathname)) return null;
+
+  const params = new URLSearchParams(search);
+  for (const name of config.queryParams ?? ["q"]) {
+    const term = normalizeSearchTerm(params.get(name) ?? "");
+    if (term) return term;
+  }
+
+  return null;
+}
+
+/**
+ * Ask the site for the result count
+ * A callback that throws, times out or returns a non-number leaves the count unset
+ */
+export async function resolveResultCount(
+  term: string,
+  config: SiteSearchConfig
+): Promise<number | undefined> {
+  if (!config.getResultCount) return undefined;
+
+  const timeoutMs = config.resultCountTimeoutMs ?? 5000;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const count = await Promise.race([
+      Promise.resolve(config.getResultCount(term)),
+      new Promise<typeof RESULT_COUNT_TIMEOUT>((resolve) => {
+        timeoutId = setTimeout(() => resolve(RESULT_COUNT_TIMEOUT), timeoutMs);
+      }),
+    ]);
+
+    if (count === RESULT_COUNT_TIMEOUT) {
+      console.warn(`[Analytics] Search result count timed out after ${timeoutMs}ms`);
+      return undefined;
+    }
+
+    return typeof count === "number" && Number.isFinite(count) && count >= 0
+      ? Math.floor(count)
+      : undefined;
+  } catch (error) {
+    console.error("[Analytics] Search result count failed:", error);
+    return undefined;
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -9,6 +9,153 @@ const DEFAULT_TTL = {
   VISITOR: 30 * 24 * 60 * 60 * 1000,
 } as const;
 
+interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * In-memory storage that reads through to browser storage for keys it does not hold,
+ * so identifiers persisted earlier stay visible without anything new being written
+ */
+class MemoryStorage implements StorageBackend {
+  private items = new Map<string, string>();
+
+  constructor(private fallback: StorageBackend | null) {}
+
+  getItem(key: string): string | null {
+    if (this.items.has(key)) {
+      return this.items.get(key) ?? null;
+    }
+
+    try {
+      return this.fallback?.getItem(key) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  keys(): string[] {
+    let fallbackKeys: string[] = [];
+    try {
+      fallbackKeys = this.fallback?.keys() ?? [];
+    } catch {
+      fallbackKeys = [];
+    }
+    return Array.from(new Set([...this.ownKeys(), ...fallbackKeys]));
+  }
+
+  ownKeys(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+function wrapStorage(getStorage: () => Storage): StorageBackend {
+  return {
+    getItem: (key) => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: (key) => getStorage().removeItem(key),
+    keys: () => Object.keys(getStorage()),
+  };
+}
+
+const browserLocalStorage = wrapStorage(() => localStorage);
+const browserSessionStorage = wrapStorage(() => sessionStorage);
+
+// Stand-ins used while persistence is disabled (e.g. before consent is granted)
+const memoryLocalStorage = new MemoryStorage(browserLocalStorage);
+const memorySessionStorage = new MemoryStorage(browserSessionStorage);
+let persistenceEnabled = true;
+
+// Cookieless mode never reads or writes persistent storage, whatever the consent state
+const cookielessLocalStorage = new MemoryStorage(null);
+let cookielessEnabled = false;
+
+function getLocalStorage(): StorageBackend {
+  if (cookielessEnabled) return cookielessLocalStorage;
+  return persistenceEnabled ? browserLocalStorage : memoryLocalStorage;
+}
+
+function getSessionStorage(): StorageBackend {
+  return persistenceEnabled ? browserSessionStorage : memorySessionStorage;
+}
+
+export function isStoragePersistent(): boolean {
+  return persistenceEnabled && !cookielessEnabled;
+}
+
+/**
+ * Keep AnalyticsStorage in memory only, isolated from anything persisted earlier
+ * AnalyticsSessionStorage (scoped to the tab and cleared when it closes) is unaffected
+ */
+export function setCookielessStorage(enabled: boolean): void {
+  if (enabled === cookielessEnabled) return;
+  cookielessEnabled = enabled;
+  cookielessLocalStorage.clear();
+}
+
+/**
+ * Switch between browser storage and in-memory storage
+ * Items written in memory are carried over when persistence is enabled
+ */
+export function setStoragePersistence(enabled: boolean): void {
+  if (enabled === persistenceEnabled) return;
+  persistenceEnabled = enabled;
+
+  if (!enabled || typeof window === "undefined") return;
+
+  const carryOver = (memory: MemoryStorage, target: StorageBackend) => {
+    try {
+      for (const key of memory.ownKeys()) {
+        target.setItem(key, memory.getItem(key) as string);
+      }
+    } catch (error) {
+      console.warn("[Analytics] Failed to persist in-memory storage:", error);
+    }
+    memory.clear();
+  };
+
+  carryOver(memoryLocalStorage, browserLocalStorage);
+  carryOver(memorySessionStorage, browserSessionStorage);
+}
+
+/**
+ * Remove every analytics_-prefixed item from browser and in-memory storage
+ */
+export function purgeAnalyticsStorage(): void {
+  memoryLocalStorage.clear();
+  memorySessionStorage.clear();
+  cookielessLocalStorage.clear();
+
+  if (typeof window === "undefined") return;
+
+  for (const backend of [browserLocalStorage, browserSessionStorage]) {
+    try {
+      for (const key of backend.keys()) {
+        if (key.startsWith(ANALYTICS_STORAGE_PREFIX)) {
+          backend.removeItem(key);
+        }
+      }
+    } catch (error) {
+      console.warn("[Analytics] Failed to purge analytics storage:", error);
+    }
+  }
+}
+
 export class AnalyticsStorage {
   private static isClient = typeof window !== "undefined";
 
@@ -24,7 +171,7 @@ export class AnalyticsStorage {
         value,
         expiry: Date.now() + ttlMs,
       };
-      localStorage.setItem(
+      getLocalStorage().setItem(
         `${ANALYTICS_STORAGE_PREFIX}${key}`,
         JSON.stringify(item)
       );
@@ -39,13 +186,13 @@ export class AnalyticsStorage {
     if (!this.isClient) return null;
 
     try {
-      const itemStr = localStorage.getItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
+      const itemStr = getLocalStorage().getItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
       if (!itemStr) return null;
 
       const item: StorageItem<T> = JSON.parse(itemStr);
 
       if (Date.now() > item.expiry) {
-        localStorage.removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
+        getLocalStorage().removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
         return null;
       }
 
@@ -60,7 +207,7 @@ export class AnalyticsStorage {
     if (!this.isClient) return;
 
     try {
-      localStorage.removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
+      getLocalStorage().removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
     } catch (error) {
       console.warn("[Analytics] Failed to remove localStorage item:", error);
     }
@@ -88,12 +235,12 @@ export class AnalyticsStorage {
     ];
 
     try {
-      const keys = Object.keys(localStorage);
+      const keys = getLocalStorage().keys();
 
       for (const key of keys) {
         for (const prefix of obsoletePrefixes) {
           if (key.startsWith(prefix)) {
-            localStorage.removeItem(key);
+            getLocalStorage().removeItem(key);
             cleanedCount++;
             break;
           }
@@ -112,23 +259,23 @@ export class AnalyticsStorage {
     let cleanedCount = 0;
 
     try {
-      const keys = Object.keys(localStorage);
+      const keys = getLocalStorage().keys();
       const now = Date.now();
 
       for (const key of keys) {
         if (!key.startsWith(ANALYTICS_STORAGE_PREFIX)) continue;
 
         try {
-          const itemStr = localStorage.getItem(key);
+          const itemStr = getLocalStorage().getItem(key);
           if (!itemStr) continue;
 
           const item = JSON.parse(itemStr);
           if (item.expiry && now > item.expiry) {
-            localStorage.removeItem(key);
+            getLocalStorage().removeItem(key);
             cleanedCount++;
           }
         } catch {
-          localStorage.removeItem(key);
+          getLocalStorage().removeItem(key);
           cleanedCount++;
         }
       }
@@ -150,14 +297,14 @@ export class AnalyticsStorage {
     ];
 
     try {
-      const keys = Object.keys(localStorage);
+      const keys = getLocalStorage().keys();
 
       for (const key of keys) {
         for (const prefix of oldPrefixes) {
           if (key.startsWith(prefix)) {
-            const value = localStorage.getItem(key);
+            const value = getLocalStorage().getItem(key);
             if (value && !value.includes('"expiry":')) {
-              localStorage.removeItem(key);
+              getLocalStorage().removeItem(key);
               migratedCount++;
 
               const keyParts = key.replace(prefix, "").split("_");
@@ -188,12 +335,12 @@ export class AnalyticsStorage {
     let sizeBytes = 0;
 
     try {
-      const keys = Object.keys(localStorage);
+      const keys = getLocalStorage().keys();
 
       for (const key of keys) {
         if (key.startsWith(ANALYTICS_STORAGE_PREFIX)) {
           count++;
-          const value = localStorage.getItem(key) || "";
+          const value = getLocalStorage().getItem(key) || "";
           sizeBytes += key.length + value.length;
         }
       }
@@ -212,7 +359,7 @@ export class AnalyticsSessionStorage {
     if (!this.isClient) return false;
 
     try {
-      sessionStorage.setItem(
+      getSessionStorage().setItem(
         `${ANALYTICS_STORAGE_PREFIX}${key}`,
         JSON.stringify(value)
       );
@@ -227,7 +374,7 @@ export class AnalyticsSessionStorage {
     if (!this.isClient) return null;
 
     try {
-      const itemStr = sessionStorage.getItem(
+      const itemStr = getSessionStorage().getItem(
         `${ANALYTICS_STORAGE_PREFIX}${key}`
       );
       if (!itemStr) return null;
@@ -243,7 +390,7 @@ export class AnalyticsSessionStorage {
     if (!this.isClient) return;
 
     try {
-      sessionStorage.removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
+      getSessionStorage().removeItem(`${ANALYTICS_STORAGE_PREFIX}${key}`);
     } catch (error) {
       console.warn("[Analytics] Failed to remove sessionStorage item:", error);
     }
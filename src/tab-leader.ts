@@ -0,0 +1,149 @@
+import { AnalyticsStorage } from "./storage-utils";
+
+interface LeaderLease {
+  tab_id: string;
+  expires: number;
+}
+
+const LEADER_KEY = "heartbeat_leader";
+const LEASE_MS = 15000;
+const RENEW_INTERVAL_MS = 5000;
+
+// Open tabs and when they were last seen; background tabs may only tick once a minute
+const TABS_KEY = "open_tabs";
+const TAB_STALE_MS = 2 * 60 * 1000;
+
+function generateTabId(): string {
+  try {
+    return crypto.randomUUID();
+  } catch {
+    return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+  }
+}
+
+/**
+ * Elects one visible tab of the origin to send heartbeats
+ * The leader holds a lease in localStorage and renews it while visible; a tab takes over
+ * when it becomes visible, and a released or expired lease is claimed by the next visible tab
+ * Where localStorage is not shared (cookieless mode, before consent), every tab leads itself
+ * Every tab also registers itself as open, so the last tab of a session can be recognized
+ */
+export class TabLeader {
+  private readonly tabId = generateTabId();
+  private renewTimer: ReturnType<typeof setInterval> | undefined;
+  private removeListeners: (() => void) | undefined;
+
+  start(): void {
+    if (typeof window === "undefined" || this.renewTimer) return;
+
+    if (!document.hidden) {
+      this.claim();
+    }
+    this.updatePresence(true);
+    this.renewTimer = setInterval(() => {
+      this.updatePresence(true);
+      if (!document.hidden) {
+        this.tryClaim(false);
+      }
+    }, RENEW_INTERVAL_MS);
+
+    // A released lease is taken over immediately instead of waiting for it to expire
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key?.endsWith(LEADER_KEY) && !event.newValue && !document.hidden) {
+        this.tryClaim(false);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        this.release();
+      } else {
+        this.claim();
+      }
+    };
+    const handlePageHide = () => {
+      this.release();
+      this.updatePresence(false);
+    };
+
+    window.addEventListener("storage", handleStorage);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+    this.removeListeners = () => {
+      window.removeEventListener("storage", handleStorage);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }
+
+  stop(): void {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = undefined;
+    }
+    this.removeListeners?.();
+    this.removeListeners = undefined;
+    this.release();
+    this.updatePresence(false);
+  }
+
+  /**
+   * Whether another tab of the origin is still open
+   */
+  hasOtherTabs(): boolean {
+    const now = Date.now();
+    const tabs = AnalyticsStorage.getItem<Record<string, number>>(TABS_KEY) ?? {};
+    return Object.entries(tabs).some(
+      ([tabId, lastSeen]) => tabId !== this.tabId && now - lastSeen <= TAB_STALE_MS
+    );
+  }
+
+  isLeader(): boolean {
+    const lease = AnalyticsStorage.getItem<LeaderLease>(LEADER_KEY);
+    return !lease || (lease.tab_id === this.tabId && lease.expires > Date.now());
+  }
+
+  /**
+   * Take the lease from whichever tab holds it
+   */
+  claim(): void {
+    this.tryClaim(true);
+  }
+
+  release(): void {
+    const lease = AnalyticsStorage.getItem<LeaderLease>(LEADER_KEY);
+    if (lease?.tab_id === this.tabId) {
+      AnalyticsStorage.removeItem(LEADER_KEY);
+    }
+  }
+
+  private updatePresence(open: boolean): void {
+    const now = Date.now();
+    const tabs = AnalyticsStorage.getItem<Record<string, number>>(TABS_KEY) ?? {};
+
+    for (const [tabId, lastSeen] of Object.entries(tabs)) {
+      if (now - lastSeen > TAB_STALE_MS) {
+        delete tabs[tabId];
+      }
+    }
+    if (open) {
+      tabs[this.tabId] = now;
+    } else {
+      delete tabs[this.tabId];
+    }
+
+    AnalyticsStorage.setItem(TABS_KEY, tabs, TAB_STALE_MS);
+  }
+
+  private tryClaim(force: boolean): void {
+    const now = Date.now();
+    const lease = AnalyticsStorage.getItem<LeaderLease>(LEADER_KEY);
+    const isHeldElsewhere = lease && lease.tab_id !== this.tabId && lease.expires > now;
+    if (isHeldElsewhere && !force) return;
+
+    AnalyticsStorage.setItem<LeaderLease>(
+      LEADER_KEY,
+      { tab_id: this.tabId, expires: now + LEASE_MS },
+      LEASE_MS
+    );
+  }
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import {
+  CUSTOM_EVENT_LIMITS,
+  type EventProperties,
+  type EventPropertyValue,
+} from "./event-types";
+import { captureException, type CapturedError } from "./error-tracking";
+
+/**
+ * Handlers provided by the mounted VisitorTracker
+ * The imperative API forwards calls here so it works from anywhere in the app
+ */
+export interface TrackerHandlers {
+  track: (name: string, properties?: EventProperties) => void;
+  reportError: (error: CapturedError) => void;
+  identify: (userId: string, traits?: EventProperties) => void;
+  reset: () => void;
+}
+
+type PendingCall =
+  | { type: "track"; name: string; properties?: EventProperties }
+  | { type: "error"; error: CapturedError }
+  | { type: "identify"; userId: string; traits?: EventProperties }
+  | { type: "reset" };
+
+const MAX_PENDING_CALLS = 20;
+
+let activeHandlers: TrackerHandlers | null = null;
+let pendingCalls: PendingCall[] = [];
+
+/**
+ * Register the mounted tracker's handlers
+ * Calls made before the tracker mounted are replayed once registered
+ */
+export function registerTrackerHandlers(handlers: TrackerHandlers): () => void {
+  activeHandlers = handlers;
+
+  const queued = pendingCalls;
+  pendingCalls = [];
+  for (const call of queued) {
+    invoke(handlers, call);
+  }
+
+  return () => {
+    if (activeHandlers === handlers) {
+      activeHandlers = null;
+    }
+  };
+}
+
+function invoke(handlers: TrackerHandlers, call: PendingCall): void {
+  switch (call.type) {
+    case "track":
+      handlers.track(call.name, call.properties);
+      break;
+    case "error":
+      handlers.reportError(call.error);
+      break;
+    case "identify":
+      handlers.identify(call.userId, call.traits);
+      break;
+    case "reset":
+      handlers.reset();
+      break;
+  }
+}
+
+function dispatch(call: PendingCall): void {
+  // Calls during server rendering have no tracker to reach, and a module-level buffer
+  // on the server would be shared by every request
+  if (typeof window === "undefined") return;
+
+  if (activeHandlers) {
+    invoke(activeHandlers, call);
+    return;
+  }
+
+  // Keep a bounded buffer until VisitorTracker mounts
+  pendingCalls.push(call);
+  if (pendingCalls.length > MAX_PENDING_CALLS) {
+    pendingCalls.shift();
+  }
+}
+
+export function sanitizeEventName(name: string): string | null {
+  if (typeof name !== "string") return null;
+
+  const cleaned = name
+    .trim()
+    .replace(/\s+/g, "_")
+    .replace(/[^a-zA-Z0-9_.:-]/g, "")
+    .substring(0, CUSTOM_EVENT_LIMITS.MAX_NAME_LENGTH);
+
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+function sanitizePropertyValue(value: unknown): EventPropertyValue | undefined {
+  if (value === null || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string") return value.substring(0, CUSTOM_EVENT_LIMITS.MAX_STRING_LENGTH);
+  return undefined;
+}
+
+/**
+ * Enforce CUSTOM_EVENT_LIMITS on a property bag
+ * Non-primitive values are dropped, strings truncated, and trailing keys removed until it fits
+ */
+export function sanitizeEventProperties(
+  properties?: Record<string, unknown>
+): EventProperties | undefined {
+  if (!properties || typeof properties !== "object") return undefined;
+
+  const result: EventProperties = {};
+  let count = 0;
+
+  for (const [rawKey, rawValue] of Object.entries(properties)) {
+    if (count >= CUSTOM_EVENT_LIMITS.MAX_PROPERTIES) {
+      console.warn(
+        `[Analytics] Custom event properties exceed ${CUSTOM_EVENT_LIMITS.MAX_PROPERTIES} keys - extra keys dropped`
+      );
+      break;
+    }
+
+    const key = rawKey.trim().substring(0, CUSTOM_EVENT_LIMITS.MAX_KEY_LENGTH);
+    const value = sanitizePropertyValue(rawValue);
+    if (!key || value === undefined) continue;
+
+    result[key] = value;
+    count++;
+  }
+
+  const keys = Object.keys(result);
+  while (
+    keys.length > 0 &&
+    JSON.stringify(result).length > CUSTOM_EVENT_LIMITS.MAX_PROPERTIES_BYTES
+  ) {
+    delete result[keys.pop() as string];
+  }
+
+  return keys.length > 0 ? result : undefined;
+}
+
+/**
+ * Record a custom event such as "checkout_started"
+ * Safe to call anywhere - events are forwarded to the mounted VisitorTracker
+ */
+export function track(name: string, properties?: EventProperties): void {
+  try {
+    const eventName = sanitizeEventName(name);
+    if (!eventName) {
+      console.warn("[Analytics] track() called without a valid event name");
+      return;
+    }
+
+    dispatch({ type: "track", name: eventName, properties: sanitizeEventProperties(properties) });
+  } catch (error) {
+    console.error("[Analytics] Error tracking custom event:", error);
+  }
+}
+
+/**
+ * Link the current anonymous visitor to a known user id
+ * Emits an identify event carrying the previous visitor id; traits are sanitized like event properties
+ */
+export function identify(userId: string, traits?: EventProperties): void {
+  try {
+    if (typeof userId !== "string" || userId.trim() === "") {
+      console.warn("[Analytics] identify() called without a valid user id");
+      return;
+    }
+
+    dispatch({ type: "identify", userId, traits: sanitizeEventProperties(traits) });
+  } catch (error) {
+    console.error("[Analytics] Error identifying visitor:", error);
+  }
+}
+
+/**
+ * Forget the identified user (e.g. on logout)
+ * Rotates to a fresh anonymous visitor id and starts a new session
+ */
+export function reset(): void {
+  try {
+    dispatch({ type: "reset" });
+  } catch (error) {
+    console.error("[Analytics] Error resetting visitor:", error);
+  }
+}
+
+/**
+ * Report a caught error through the error channel
+ * Only sent when the mounted VisitorTracker has errorTracking enabled
+ */
+export function captureError(error: unknown): void {
+  try {
+    dispatch({ type: "error", error: captureException(error) });
+  } catch (captureFailure) {
+    console.error("[Analytics] Error capturing error:", captureFailure);
+  }
+}
+
+/**
+ * Report an error caught by a React error boundary
+ */
+export function captureBoundaryError(error: unknown, componentStack?: string | null): void {
+  try {
+    dispatch({
+      type: "error",
+      error: captureException(error, "boundary", componentStack ?? undefined),
+    });
+  } catch (captureFailure) {
+    console.error("[Analytics] Error capturing error:", captureFailure);
+  }
+}
+
+/**
+ * React hook returning a stable track function
+ * Optional default properties are merged into every event (call-site properties win)
+ */
+export function useTrack(
+  defaultProperties?: EventProperties
+): (name: string, properties?: EventProperties) => void {
+  const defaultsRef = useRef<EventProperties | undefined>(defaultProperties);
+  defaultsRef.current = defaultProperties;
+
+  return useCallback((name: string, properties?: EventProperties) => {
+    track(
+      name,
+      defaultsRef.current ? { ...defaultsRef.current, ...properties } : properties
+    );
+  }, []);
+}
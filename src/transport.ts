@@ -0,0 +1,182 @@
+import type { CollectorEndpoint } from "./analytics-config";
+import type { BaseHumanEvent, BotEvent, EventBatch, PerformanceEvent } from "./event-types";
+
+/**
+ * Outcome of a single delivery attempt
+ * - delivered: collector accepted the event
+ * - retryable: network error, timeout, 408/429 or 5xx - worth trying again later
+ * - rejected: permanent failure (other 4xx) - retrying would not help
+ */
+export type DeliveryStatus = "delivered" | "retryable" | "rejected";
+
+interface TransportRequestBase {
+  url: string;
+  body: string; // Serialized payload
+  headers: Record<string, string>;
+  timeoutMs: number;
+  keepalive: boolean; // Request must survive the page being unloaded
+}
+
+/**
+ * Typed payload for each collector endpoint
+ */
+export type TransportPayload =
+  | { channel: "human"; payload: BaseHumanEvent }
+  | { channel: "performance"; payload: PerformanceEvent }
+  | { channel: "bot"; payload: BotEvent }
+  | { channel: "batch"; payload: EventBatch };
+
+/**
+ * A single collector request handed to a transport
+ * payload is the typed event (already including sdk_version) that body serializes
+ */
+export type TransportRequest = TransportPayload & TransportRequestBase;
+
+/**
+ * Network layer used by the send functions
+ * Implementations must never throw - failures are reported through the returned status
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<DeliveryStatus>;
+}
+
+const CHANNEL_LOG_LABELS: Record<CollectorEndpoint, { prefix: string; name: string }> = {
+  human: { prefix: "[Analytics]", name: "human event" },
+  performance: { prefix: "[Performance]", name: "performance event" },
+  bot: { prefix: "[Jillen.Analytics]", name: "bot tracking" },
+  batch: { prefix: "[Analytics]", name: "event batch" },
+};
+
+export function getDeliveryStatus(httpStatus: number): DeliveryStatus {
+  if (httpStatus >= 200 && httpStatus < 300) return "delivered";
+  if (httpStatus === 408 || httpStatus === 429 || httpStatus >= 500) return "retryable";
+  return "rejected";
+}
+
+/**
+ * Standard fetch transport with timeout
+ */
+export class FetchTransport implements Transport {
+  async send(request: TransportRequest): Promise<DeliveryStatus> {
+    const { prefix, name } = CHANNEL_LOG_LABELS[request.channel];
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), request.timeoutMs);
+
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        mode: "cors",
+        body: request.body,
+        signal: controller.signal,
+        // Browsers cap keepalive bodies at 64KB
+        keepalive: request.keepalive && request.body.length < 60000,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        console.error(
+          `${prefix} Server endpoint error: ${response.status} ${response.statusText} - ${name} failed`
+        );
+        return getDeliveryStatus(response.status);
+      }
+
+      return "delivered";
+    } catch (error) {
+      if (error instanceof TypeError) {
+        if (error.message.includes("fetch failed") || error.message.includes("network")) {
+          console.error(`${prefix} Network connectivity error in ${name}:`, error.message);
+        } else {
+          console.error(`${prefix} Request configuration error in ${name}:`, error.message);
+        }
+      } else if (error instanceof DOMException && error.name === "AbortError") {
+        console.error(`${prefix} ${name} request timeout after ${request.timeoutMs / 1000} seconds`);
+      } else if (error instanceof Error) {
+        console.error(`${prefix} ${name} error:`, error.name, error.message);
+      } else {
+        console.error(`${prefix} Unknown error in ${name}:`, error);
+      }
+      // Silent fail - never break the application
+      return "retryable";
+    }
+  }
+}
+
+/**
+ * navigator.sendBeacon transport for requests that must survive page unload
+ * Beacons cannot carry custom headers or report the response, so requests with extra headers
+ * or a refused beacon fall back to fetch with keepalive
+ */
+export class BeaconTransport implements Transport {
+  private fallback = new FetchTransport();
+
+  async send(request: TransportRequest): Promise<DeliveryStatus> {
+    const hasCustomHeaders = Object.keys(request.headers).some(
+      (header) => header.toLowerCase() !== "content-type"
+    );
+
+    if (
+      !hasCustomHeaders &&
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function"
+    ) {
+      try {
+        // text/plain avoids a CORS preflight, which beacons cannot perform
+        const blob = new Blob([request.body], { type: "text/plain;charset=UTF-8" });
+        if (navigator.sendBeacon(request.url, blob)) {
+          return "delivered";
+        }
+      } catch (error) {
+        const { prefix, name } = CHANNEL_LOG_LABELS[request.channel];
+        console.error(`${prefix} Beacon error in ${name}:`, error);
+      }
+    }
+
+    return this.fallback.send({ ...request, keepalive: true });
+  }
+}
+
+/**
+ * In-memory transport that records every request instead of sending it
+ * Intended for integration tests - batches are unpacked by the event accessors
+ */
+export class MemoryTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+
+  constructor(
+    private respond: (request: TransportRequest) => DeliveryStatus = () => "delivered"
+  ) {}
+
+  async send(request: TransportRequest): Promise<DeliveryStatus> {
+    this.requests.push(request);
+    return this.respond(request);
+  }
+
+  get humanEvents(): BaseHumanEvent[] {
+    return this.requests.flatMap((request) => {
+      if (request.channel === "human") return [request.payload];
+      if (request.channel === "batch") return request.payload.human_events;
+      return [];
+    });
+  }
+
+  get performanceEvents(): PerformanceEvent[] {
+    return this.requests.flatMap((request) => {
+      if (request.channel === "performance") return [request.payload];
+      if (request.channel === "batch") return request.payload.performance_events;
+      return [];
+    });
+  }
+
+  get botEvents(): BotEvent[] {
+    return this.requests.flatMap((request) =>
+      request.channel === "bot" ? [request.payload] : []
+    );
+  }
+
+  clear(): void {
+    this.requests.length = 0;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Opt-in tracking of URL parts beyond the pathname
+ * Allow-listed search parameters and the hash become part of the tracked path,
+ * so changing them sends a page view
+ */
+export interface UrlTrackingConfig {
+  searchParams?: string[]; // Parameter names to keep, e.g. ["tab", "q"] - all others are dropped
+  hash?: boolean;          // Default: false
+}
+
+export function resolveUrlTrackingConfig(
+  urlTracking?: UrlTrackingConfig
+): Required<UrlTrackingConfig> {
+  return {
+    searchParams: urlTracking?.searchParams ?? [],
+    hash: urlTracking?.hash ?? false,
+  };
+}
+
+/**
+ * Keep only allow-listed parameters, in allow-list order, as a query string ("" when none)
+ */
+export function filterSearchParams(search: string, allowList: string[]): string {
+  const source = new URLSearchParams(search);
+  const filtered = new URLSearchParams();
+
+  for (const name of allowList) {
+    for (const value of source.getAll(name)) {
+      filtered.append(name, value);
+    }
+  }
+
+  const query = filtered.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Path reported for page views: the pathname plus the tracked query string and hash
+ */
+export function buildTrackedPath(
+  pathname: string,
+  search: string,
+  hash: string,
+  config: Required<UrlTrackingConfig>
+): string {
+  const query = config.searchParams.length > 0 ? filterSearchParams(search, config.searchParams) : "";
+  const fragment = config.hash && hash.length > 1 ? hash : "";
+
+  return `${pathname}${query}${fragment}`;
+}
@@ -2,79 +2,92 @@
 
 import { isbot } from "isbot";
 import { usePathname } from "next/navigation";
-import { useCallback, useEffect, useRef } from "react";
-import type { BaseHumanEvent, PerformanceEvent } from "./event-types";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import type { AnalyticsConfig } from "./analytics-config";
+import {
+  SESSION_END_REASONS,
+  TRAFFIC_CHANNELS,
+  type BaseHumanEvent,
+  type EventProperties,
+  type EventType,
+  type PerformanceEvent,
+  type SessionEndReason,
+} from "./event-types";
 import { getSiteIdWithFallback } from "./analytics-host-utils";
+import { getSessionCampaign, getTouchAttribution } from "./attribution";
+import { configureConsent, type ConsentConfig } from "./consent";
+import { configureIdentityCookie } from "./cookie-storage";
+import { PageEngagement } from "./engagement";
+import {
+  getErrorEventFields,
+  installErrorListeners,
+  isIgnoredError,
+  resolveErrorTrackingConfig,
+  shouldReportError,
+  type CapturedError,
+  type ErrorTrackingConfig,
+} from "./error-tracking";
+import {
+  getConversionEventFields,
+  type FunnelDefinition,
+  type GoalDefinition,
+} from "./goals";
 import { collectPerfMetrics } from "./performance-collector";
-import { sendHumanEvent, sendPerformanceEvent } from "./send";
+import { pseudonymizeUserId, type PseudonymizeConfig } from "./pseudonymize";
+import {
+  cleanUserId,
+  getAnonymousId,
+  configurePrivacyMode,
+  getIdentifiedUserId,
+  isCookieless,
+  resetIdentity,
+  setIdentifiedUserId,
+  takeVisitorIdMigration,
+  type PrivacyMode,
+} from "./identity";
+import {
+  classifyLinkClick,
+  findClickedAnchor,
+  resolveAutoCaptureConfig,
+  type AutoCaptureConfig,
+} from "./link-tracking";
+import { classifyTraffic } from "./referrer-registry";
+import { normalizeRoutePath, resolveRouteConfig, type RouteConfig } from "./route-normalizer";
+import { SearchParamsObserver } from "./search-params-observer";
+import { SessionJourney } from "./session-journey";
+import {
+  claimSessionEnd,
+  clearSession,
+  getActiveSession,
+  readSession,
+  SESSION_TIMEOUT_MS,
+  touchSession,
+  writeSession,
+  type SessionData,
+} from "./session-store";
+import { getSearchTerm, resolveResultCount, type SiteSearchConfig } from "./site-search";
+import { sendHumanEvent, sendPerformanceEvent, type SendOptions } from "./send";
 import { AnalyticsSessionStorage, AnalyticsStorage } from "./storage-utils";
+import { TabLeader } from "./tab-leader";
+import { registerTrackerHandlers } from "./tracker-api";
+import { buildTrackedPath, resolveUrlTrackingConfig, type UrlTrackingConfig } from "./url-tracking";
 
-interface SessionData {
-  session_id: string;
-  last_activity: number;
-}
-
-function generateVisitorId(username?: string | null): string {
-  // For authenticated users, use username-based ID
-  if (username && username.trim() !== "") {
-    const cleanUsername =
-      username
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, "-")
-        .replace(/[^a-z0-9-]/g, "")
-        .replace(/-+/g, "-")
-        .replace(/^-+|-+$/g, "")
-        .substring(0, 50) || "unknown-user";
-
-    // Store the username-based ID
-    AnalyticsStorage.setItem("visitor_id", cleanUsername);
-    return cleanUsername;
-  }
-
-  // For anonymous users, check if we have a stored fingerprint-based ID
-  const stored = AnalyticsStorage.getItem<string>("visitor_id");
-  if (stored && !stored.includes("@") && stored !== "unknown-user") {
-    return stored;
-  }
+function generateVisitorId(userId?: string | null): string {
+  // For authenticated users, use the (cleaned or pseudonymized) username-based ID
+  // Otherwise a user recorded by identify(), falling back to the anonymous ID
+  const visitorId = userId ?? getIdentifiedUserId() ?? getAnonymousId();
 
-  // Generate new fingerprint-based ID for anonymous users
-  const fingerprint = [
-    navigator.userAgent || "unknown",
-    navigator.language || "unknown",
-    `${screen.width}x${screen.height}`,
-    (navigator as Navigator & { hardwareConcurrency?: number })
-      .hardwareConcurrency || "unknown",
-    Intl.DateTimeFormat().resolvedOptions().timeZone || "unknown",
-  ].join("|");
-
-  let hash = 0;
-  for (let i = 0; i < fingerprint.length; i++) {
-    const char = fingerprint.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-
-  const visitorId = Math.abs(hash).toString(36);
   AnalyticsStorage.setItem("visitor_id", visitorId);
   return visitorId;
 }
 
 function generateSessionId(): { sessionId: string; isNewSession: boolean } {
+  // Sessions are shared across tabs, so a new tab joins the session of the others
   if (typeof window !== "undefined") {
-    const sessionData =
-      AnalyticsSessionStorage.getItem<SessionData>("session_data");
-
-    if (sessionData?.session_id) {
-      const now = Date.now();
-      const timeSinceActivity = now - sessionData.last_activity;
-      const SESSION_TIMEOUT = 30 * 60 * 1000;
+    const session = getActiveSession();
 
-      if (timeSinceActivity < SESSION_TIMEOUT) {
-        return { sessionId: sessionData.session_id, isNewSession: false };
-      }
-
-      AnalyticsSessionStorage.removeItem("session_data");
+    if (session) {
+      return { sessionId: session.session_id, isNewSession: false };
     }
   }
 
@@ -100,18 +113,20 @@ function generateSessionId(): { sessionId: string; isNewSession: boolean } {
   const newSessionId = generateLightweightId();
   const now = Date.now();
 
-  // Store new session in sessionStorage
   if (typeof window !== "undefined") {
-    AnalyticsSessionStorage.setItem("session_data", {
+    // Per-session state of earlier sessions is no longer needed
+    AnalyticsStorage.cleanupExpiredItems();
+    writeSession({
       session_id: newSessionId,
       last_activity: now,
+      started_at: new Date(now).toISOString(),
     });
   }
 
   return { sessionId: newSessionId, isNewSession: true };
 }
 
-function getClientData(username?: string | null) {
+function getClientData(userId?: string | null, existingSessionId?: string) {
   if (typeof window === "undefined") {
     return {
       isNewVisitor: true,
@@ -124,11 +139,17 @@ function getClientData(username?: string | null) {
     };
   }
 
-  const visitorId = generateVisitorId(username);
-  const { sessionId, isNewSession } = generateSessionId();
+  const visitorId = generateVisitorId(userId);
+  const { sessionId, isNewSession } = existingSessionId
+    ? { sessionId: existingSessionId, isNewSession: false }
+    : generateSessionId();
   let isNewVisitor: boolean;
 
-  if (username && username.trim() !== "") {
+  if (userId) {
+    isNewVisitor = false;
+  } else if (isCookieless()) {
+    // Nothing is remembered between visits, so the collector derives newness
+    // from the first appearance of the daily visitor id instead
     isNewVisitor = false;
   } else {
     const visitorCacheKey = `isNewVisitor_${visitorId}`;
@@ -150,15 +171,17 @@ function getClientData(username?: string | null) {
     }
   }
 
-  let sessionStartTime = AnalyticsSessionStorage.getItem<string>(
-    `session_start_${sessionId}`
-  );
+  // Sessions adopted from before they were shared kept their start time per tab
+  const storedSession = readSession();
+  const session = storedSession?.session_id === sessionId ? storedSession : null;
+  let sessionStartTime =
+    session?.started_at ??
+    AnalyticsSessionStorage.getItem<string>(`session_start_${sessionId}`);
   if (!sessionStartTime) {
     sessionStartTime = new Date().toISOString();
-    AnalyticsSessionStorage.setItem(
-      `session_start_${sessionId}`,
-      sessionStartTime
-    );
+    if (session) {
+      writeSession({ ...session, started_at: sessionStartTime });
+    }
   }
 
   const screenResolution = `${screen.width}x${screen.height}`;
@@ -180,22 +203,187 @@ function getClientData(username?: string | null) {
   };
 }
 
+const ACTIVITY_EVENTS = [
+  "click",
+  "keydown",
+  "touchstart",
+  "scroll",
+  "wheel",
+  "play",
+  "pause",
+  "seeked",
+  "volumechange",
+  "input",
+  "change",
+  "focus",
+  "copy",
+  "cut",
+  "paste",
+];
+
+/**
+ * Attach one passive window listener for several events
+ * Returns the matching cleanup function
+ */
+function addPassiveListeners(events: string[], handler: (event: Event) => void): () => void {
+  events.forEach((event) => {
+    window.addEventListener(event, handler, {
+      passive: true,
+    });
+  });
+
+  return () => {
+    events.forEach((event) => {
+      window.removeEventListener(event, handler);
+    });
+  };
+}
+
+/**
+ * Path used for page views and the dedupe key
+ * Read from window.location because the router updates history after rendering
+ */
+function getTrackedPath(pathname: string, urlTracking?: UrlTrackingConfig): string {
+  if (typeof window === "undefined") return pathname;
+
+  return buildTrackedPath(
+    pathname,
+    window.location.search,
+    window.location.hash,
+    resolveUrlTrackingConfig(urlTracking)
+  );
+}
+
+/**
+ * Tracking runs in production only, unless a custom transport is configured
+ * (e.g. MemoryTransport in integration tests) since that never touches the network
+ */
+function isTrackingEnabled(config?: AnalyticsConfig): boolean {
+  return process.env.NODE_ENV === "production" || Boolean(config?.transport);
+}
+
 export interface VisitorTrackerProps {
   username?: string | null;
+  config?: AnalyticsConfig;
+  goals?: GoalDefinition[];
+  funnels?: FunnelDefinition[];
+  autoCapture?: boolean | AutoCaptureConfig;
+  errorTracking?: boolean | ErrorTrackingConfig;
+  consent?: ConsentConfig;
+  privacyMode?: PrivacyMode;
+  dailySalt?: string | null;
+  pseudonymize?: PseudonymizeConfig;
+  displayName?: string | null; // Sent as visitor_name instead of the username
+  routes?: RouteConfig;
+  urlTracking?: UrlTrackingConfig;
+  siteSearch?: SiteSearchConfig;
 }
 
-export function VisitorTracker({ username }: VisitorTrackerProps) {
+export function VisitorTracker({
+  username,
+  config,
+  goals,
+  funnels,
+  autoCapture,
+  errorTracking,
+  consent,
+  privacyMode = "standard",
+  dailySalt,
+  pseudonymize,
+  displayName,
+  routes,
+  urlTracking,
+  siteSearch,
+}: VisitorTrackerProps) {
   const pathname = usePathname();
+
+  // Query string and hash changes only trigger the page view effect, which reads the
+  // tracked path from window.location once the router has committed the navigation
+  const urlTrackingConfig = resolveUrlTrackingConfig(urlTracking);
+  const tracksSearchParams = urlTrackingConfig.searchParams.length > 0;
+  const [search, setSearch] = useState<string>("");
+  const [hash, setHash] = useState<string>("");
+  const urlTrackingRef = useRef<UrlTrackingConfig | undefined>(urlTracking);
+  urlTrackingRef.current = urlTracking;
+
+  // Pseudonymized usernames are hashed asynchronously; tracking waits for the result
+  // so the plain username is never used as an identifier in the meantime
+  const pseudonymSalt = pseudonymize?.salt;
+  const hasUsername = Boolean(username && username.trim() !== "");
+  const [pseudonym, setPseudonym] = useState<{ username: string; id: string | null } | null>(
+    null
+  );
+  useEffect(() => {
+    if (!pseudonymSalt || !username || username.trim() === "") return undefined;
+
+    let cancelled = false;
+    void pseudonymizeUserId(username, pseudonymSalt).then((id) => {
+      if (!cancelled) {
+        setPseudonym({ username, id });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [username, pseudonymSalt]);
+
+  const identityReady = !pseudonymSalt || !hasUsername || pseudonym?.username === username;
+  // If hashing is impossible the visitor stays anonymous rather than exposing the username
+  let userId: string | null = null;
+  if (hasUsername) {
+    userId = pseudonymSalt
+      ? pseudonym && pseudonym.username === username ? pseudonym.id : null
+      : cleanUserId(username as string);
+  }
+  const visitorName = displayName ?? (pseudonymSalt ? undefined : username ?? undefined);
+
   const isInitialized = useRef<boolean>(false);
-  const lastTrackedPath = useRef<string>(pathname);
+  const lastTrackedPath = useRef<string>(getTrackedPath(pathname, urlTracking));
+  const currentPath = useRef<string>(lastTrackedPath.current);
   const heartbeatInterval = useRef<NodeJS.Timeout | undefined>(undefined);
   const heartbeatEnabled = useRef<boolean>(true);
   const currentInterval = useRef<number>(15000); // Start with 15s
   const isActive = useRef<boolean>(true);
+  const pageviewTracked = useRef<boolean>(false);
+
+  // Keep the latest config without re-running effects for inline objects
+  const configRef = useRef<AnalyticsConfig | undefined>(config);
+  configRef.current = config;
+  const goalsRef = useRef<GoalDefinition[]>(goals ?? []);
+  goalsRef.current = goals ?? [];
+  const funnelsRef = useRef<FunnelDefinition[]>(funnels ?? []);
+  funnelsRef.current = funnels ?? [];
+  const autoCaptureRef = useRef<boolean | AutoCaptureConfig | undefined>(autoCapture);
+  autoCaptureRef.current = autoCapture;
+  const errorTrackingRef = useRef<boolean | ErrorTrackingConfig | undefined>(errorTracking);
+  errorTrackingRef.current = errorTracking;
+  const consentRef = useRef<ConsentConfig | undefined>(consent);
+  consentRef.current = consent;
+  const routesRef = useRef<RouteConfig | undefined>(routes);
+  routesRef.current = routes;
+  const siteSearchRef = useRef<SiteSearchConfig | undefined>(siteSearch);
+  siteSearchRef.current = siteSearch;
+
+  // Engagement (engaged time, scroll depth) for the current page view
+  const pageEngagement = useRef<PageEngagement>(new PageEngagement());
+
+  // Entry page, page view sequence and previous path within the session
+  const sessionJourney = useRef<SessionJourney>(new SessionJourney());
+
+  // Only the leading tab sends heartbeats for the shared session
+  const tabLeader = useRef<TabLeader>(new TabLeader());
 
   // Track if we've already sent performance event for this page load
   const perfEventSent = useRef<boolean>(false);
 
+  // Session of the current page view, so its page_leave never starts a new session
+  const pageviewSessionId = useRef<string | null>(null);
+
+  // Session lookup for sendEvent; replaced by continueSession once it is defined
+  const continueSessionRef = useRef<(now?: number) => string>(
+    () => generateSessionId().sessionId
+  );
+
   // Deduplication cache to prevent burst requests
   const sentEventsCache = useRef<Map<string, number>>(new Map());
   const DEDUPE_WINDOW_MS = 100; // 100ms deduplication window
@@ -209,12 +397,7 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
 
   const updateLastActivity = useCallback(() => {
     if (typeof window !== "undefined") {
-      const sessionData =
-        AnalyticsSessionStorage.getItem<SessionData>("session_data");
-      if (sessionData) {
-        sessionData.last_activity = Date.now();
-        AnalyticsSessionStorage.setItem("session_data", sessionData);
-      }
+      touchSession();
     }
   }, []);
 
@@ -229,8 +412,8 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
     setTimeout(async () => {
       try {
         const siteId = getSiteIdWithFallback(window.location.hostname);
-        const visitorId = generateVisitorId(username);
-        const perfMetrics = collectPerfMetrics();
+        const visitorId = generateVisitorId(userId);
+        const perfMetrics = collectPerfMetrics(resolveRouteConfig(routesRef.current));
 
         if (!perfMetrics) return;
 
@@ -248,26 +431,40 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
           visitor_id: visitorId,
         };
 
-        await sendPerformanceEvent(payload);
+        await sendPerformanceEvent(payload, configRef.current);
       } catch (error) {
         console.error("[Performance] Error sending perf event:", error);
       }
     }, 1000);
-  }, [username]);
+  }, [userId]);
 
   const sendEvent = useCallback(
     async (
-      eventType: "pageview" | "session_start" | "heartbeat",
-      referrer?: string
+      eventType: EventType,
+      referrer?: string,
+      fields: Partial<BaseHumanEvent> = {},
+      sendOptions?: SendOptions
     ) => {
-      if (process.env.NODE_ENV !== "production") {
+      if (!isTrackingEnabled(configRef.current)) {
         return;
       }
 
       // Deduplication: Check if same event was sent recently
       const siteId = getSiteIdWithFallback(window.location.hostname);
-      const { sessionId } = generateSessionId();
-      const dedupeKey = `${sessionId}_${eventType}_${pathname}`;
+      // session_end and page_leave name their (possibly timed-out) session, which must not
+      // start a new one
+      const sessionId = fields.session_id ?? continueSessionRef.current();
+      const dedupeKey = [
+        sessionId,
+        eventType,
+        fields.path ?? currentPath.current,
+        fields.event_name,
+        fields.target_url,
+        fields.error_fingerprint,
+        fields.search_term,
+      ]
+        .filter(Boolean)
+        .join("_");
       const now = Date.now();
       const lastSent = sentEventsCache.current.get(dedupeKey);
 
@@ -293,12 +490,29 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
       }
 
       try {
-        const clientData = getClientData(username);
-        const visitorId = generateVisitorId(username);
+        const clientData = getClientData(userId, fields.session_id);
+        const visitorId = generateVisitorId(userId);
+
+        const campaign = getSessionCampaign(sessionId, pathname);
+        const routeConfig = resolveRouteConfig(routesRef.current);
 
-        const payload: BaseHumanEvent = {
+        const eventPath = fields.path ?? currentPath.current;
+        if (eventType === "pageview") {
+          sessionJourney.current.recordPageview(sessionId, eventPath, referrer);
+          pageviewSessionId.current = sessionId;
+        }
+        const journeyFields = sessionJourney.current.getFields(
+          sessionId,
+          eventPath,
+          referrer,
+          clientData.sessionStartTime
+        );
+
+        const basePayload: BaseHumanEvent = {
+          ...campaign,
           website_domain: siteId,
-          path: pathname,
+          path: currentPath.current,
+          route: normalizeRoutePath(pathname, routeConfig),
           visitor_id: visitorId,
           session_id: sessionId,
           event_type: eventType,
@@ -308,16 +522,112 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
           connection_type: clientData.connectionType,
           client_time_zone: clientData.clientTimeZone,
           session_start_time: clientData.sessionStartTime,
-          visitor_name: username ?? undefined,
-          referrer: referrer,
+          visitor_name: visitorName,
+          privacy_mode: isCookieless() ? "cookieless" : undefined,
+          ...journeyFields,
         };
 
-        await sendHumanEvent(payload);
+        // Session starts and goal completions carry first/last touch for crediting
+        const touchFields = eventType === "session_start" ? getTouchAttribution() : {};
+        const trafficFields =
+          eventType === "session_start" || eventType === "pageview"
+            ? classifyTraffic(referrer, campaign, window.location.hostname)
+            : {};
+
+        // page_leave reports a previous path, so its route is derived from that path
+        const routeFields = fields.path ? { route: normalizeRoutePath(fields.path, routeConfig) } : {};
+
+        await sendHumanEvent(
+          {
+            ...basePayload,
+            referrer: referrer,
+            ...trafficFields,
+            ...touchFields,
+            ...routeFields,
+            ...fields,
+          },
+          configRef.current,
+          sendOptions
+        );
+
+        // Page views and custom events may complete goals or advance funnels
+        if (eventType === "pageview" || eventType === "custom") {
+          const conversions = getConversionEventFields(
+            goalsRef.current,
+            funnelsRef.current,
+            {
+              path: pathname,
+              eventName: fields.event_name,
+              properties: fields.event_properties,
+            },
+            sessionId
+          );
+
+          for (const conversion of conversions) {
+            const conversionTouchFields =
+              conversion.event_type === "goal_completed" ? getTouchAttribution() : {};
+            await sendHumanEvent(
+              { ...basePayload, ...conversionTouchFields, ...conversion },
+              configRef.current
+            );
+          }
+        }
       } catch (error) {
         console.error("[Analytics] Error sending event:", error);
       }
     },
-    [pathname, username, sendPerfEvent]
+    [pathname, userId, visitorName, sendPerfEvent]
+  );
+
+  // Report engagement for the page being left and start measuring the next one
+  const sendPageLeave = useCallback(
+    (path: string, sendOptions?: SendOptions) => {
+      const engagement = pageEngagement.current.snapshot();
+      pageEngagement.current = new PageEngagement();
+
+      sendEvent(
+        "page_leave",
+        undefined,
+        { path, ...engagement, session_id: pageviewSessionId.current ?? undefined },
+        sendOptions
+      );
+    },
+    [sendEvent]
+  );
+
+  // Report the end of a session with its measured length
+  const sendSessionEnd = useCallback(
+    (session: SessionData, reason: SessionEndReason, endedAt: number, sendOptions?: SendOptions) => {
+      const startedAt = session.started_at ? Date.parse(session.started_at) : NaN;
+
+      sendEvent(
+        "session_end",
+        undefined,
+        {
+          session_id: session.session_id,
+          ...(session.started_at ? { session_start_time: session.started_at } : {}),
+          end_reason: reason,
+          session_duration_ms: Number.isNaN(startedAt) ? undefined : Math.max(0, endedAt - startedAt),
+        },
+        sendOptions
+      );
+    },
+    [sendEvent]
+  );
+
+  // A timed-out session ended at its last activity; whichever tab notices first reports it
+  // The record stays readable after the timeout and is cleared once it has been reported
+  const endTimedOutSession = useCallback(
+    (now: number = Date.now()) => {
+      const session = readSession();
+      if (!session || now - session.last_activity < SESSION_TIMEOUT_MS) return;
+
+      if (claimSessionEnd(session)) {
+        sendSessionEnd(session, SESSION_END_REASONS.TIMEOUT, session.last_activity);
+      }
+      clearSession();
+    },
+    [sendSessionEnd]
   );
 
   const scheduleNextHeartbeat = useCallback(() => {
@@ -330,21 +640,23 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
     heartbeatInterval.current = setTimeout(() => {
       heartbeatInterval.current = undefined;
 
-      const sessionData =
-        AnalyticsSessionStorage.getItem<SessionData>("session_data");
+      // Activity in any tab counts, but only the leading tab reports it
+      // A missing session (cleared by reset or consent) counts as timed out, so the
+      // heartbeat never starts a session without session_start
+      const sessionData = readSession();
       const timeSinceActivity = sessionData
         ? Date.now() - sessionData.last_activity
-        : 0;
+        : Infinity;
 
       const inactivityThreshold = 2 * 60 * 1000; // 2 minutes
-      const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 
-      if (timeSinceActivity >= SESSION_TIMEOUT) {
+      if (timeSinceActivity >= SESSION_TIMEOUT_MS) {
         heartbeatEnabled.current = false;
+        endTimedOutSession();
         return;
       }
 
-      if (timeSinceActivity < inactivityThreshold) {
+      if (timeSinceActivity < inactivityThreshold && tabLeader.current.isLeader()) {
         sendEvent("heartbeat");
       }
 
@@ -358,30 +670,44 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
 
       scheduleNextHeartbeat();
     }, currentInterval.current);
-  }, [sendEvent]);
+  }, [endTimedOutSession, sendEvent]);
+
+  // The current session id, starting a new session when the last one timed out
+  // Any event may be the first after a timeout (activity, track(), errors, site search):
+  // the old session is ended before generateSessionId() replaces it, and the new one gets
+  // its session_start and pageview and resumes heartbeats
+  const continueSession = useCallback(
+    (now: number = Date.now()): string => {
+      endTimedOutSession(now);
+      const { sessionId, isNewSession } = generateSessionId();
+      if (!isNewSession || isBot()) return sessionId;
+
+      // The page load flow must not send these again for the same page
+      isInitialized.current = true;
+      pageviewTracked.current = true;
+      lastTrackedPath.current = currentPath.current;
+      sendEvent("session_start");
+      sendEvent("pageview");
+
+      heartbeatEnabled.current = true;
+      currentInterval.current = 15000;
+      scheduleNextHeartbeat();
+
+      return sessionId;
+    },
+    [endTimedOutSession, isBot, scheduleNextHeartbeat, sendEvent]
+  );
+  continueSessionRef.current = continueSession;
 
   const handleActivity = useCallback(() => {
     const now = Date.now();
     isActive.current = true;
+    pageEngagement.current.recordActivity(now);
+    pageEngagement.current.updateScrollDepth();
 
-    const sessionData =
-      AnalyticsSessionStorage.getItem<SessionData>("session_data");
-    const timeSinceActivity = sessionData
-      ? now - sessionData.last_activity
-      : Infinity;
-    const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-
-    // Check if we need to start a new session due to timeout
-    if (timeSinceActivity > SESSION_TIMEOUT) {
-      const { isNewSession } = generateSessionId(); // This will create and store the new session
-
-      // Only send session_start if this is actually a new session
-      if (isNewSession) {
-        sendEvent("session_start");
-        sendEvent("pageview");
-      }
-
-      // Re-enable heartbeats for new session
+    continueSession(now);
+    // Heartbeats stopped by a timeout resume once the visitor is back
+    if (!document.hidden) {
       heartbeatEnabled.current = true;
     }
 
@@ -393,7 +719,7 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
     if (heartbeatEnabled.current) {
       scheduleNextHeartbeat();
     }
-  }, [scheduleNextHeartbeat, sendEvent, updateLastActivity]);
+  }, [continueSession, scheduleNextHeartbeat, updateLastActivity]);
 
   const throttleRef = useRef<{
     timeoutId?: NodeJS.Timeout;
@@ -418,6 +744,32 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
     }
   }, [handleActivity]);
 
+  // Apply the privacy mode before any identifier is derived
+  useEffect(() => {
+    configurePrivacyMode(privacyMode, dailySalt);
+  }, [privacyMode, dailySalt]);
+
+  // Apply the identity cookie before any identifier is derived
+  const identityCookieKey = JSON.stringify(config?.identityCookie ?? null);
+  useEffect(() => {
+    configureIdentityCookie(configRef.current?.identityCookie);
+  }, [identityCookieKey]);
+
+  // Apply consent mode before the first event is sent or identifier stored
+  const consentMode = Boolean(consent);
+  useEffect(() => {
+    configureConsent(consentRef.current);
+  }, [consentMode]);
+
+  // Heartbeat leadership across the tabs sharing the session
+  useEffect(() => {
+    if (!isTrackingEnabled(configRef.current)) return undefined;
+
+    const leader = tabLeader.current;
+    leader.start();
+    return () => leader.stop();
+  }, []);
+
   // Track page views and set up activity detection
   useEffect(() => {
     // CRITICAL: Clean up any existing heartbeat when effect re-runs
@@ -426,68 +778,104 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
       heartbeatInterval.current = undefined;
     }
 
+    const trackedPath = getTrackedPath(pathname, urlTrackingRef.current);
+    currentPath.current = trackedPath;
+
     // Reset performance event flag when pathname changes
-    if (lastTrackedPath.current !== pathname) {
+    if (lastTrackedPath.current.split(/[?#]/)[0] !== pathname) {
       perfEventSent.current = false;
     }
 
-    if (process.env.NODE_ENV !== "production") return;
+    if (!isTrackingEnabled(configRef.current) || !identityReady) return;
 
     if (isBot()) {
       return;
     }
 
+    // Report engagement for the previous route before its page view is replaced
+    if (lastTrackedPath.current !== trackedPath) {
+      sendPageLeave(lastTrackedPath.current);
+    }
+
+    // A session that timed out while no tab was open is ended before it is replaced
+    endTimedOutSession();
+
     // Get client data which includes session state
-    const clientData = getClientData(username);
+    const clientData = getClientData(userId);
     const isNewSession = clientData.isNewSession;
 
+    const referrer =
+      typeof window !== "undefined" &&
+      document.referrer &&
+      document.referrer.length > 0
+        ? document.referrer
+        : undefined;
+
     if (isNewSession && !isInitialized.current) {
-      sendEvent("session_start");
+      sendEvent("session_start", referrer);
       isInitialized.current = true;
     }
 
-    // Always send pageview for new sessions or path changes
-    if (isNewSession || lastTrackedPath.current !== pathname) {
+    // Always send pageview for new sessions, newly opened tabs or path changes
+    if (isNewSession || !pageviewTracked.current || lastTrackedPath.current !== trackedPath) {
       updateLastActivity();
 
-      const referrer =
-        typeof window !== "undefined" &&
-        document.referrer &&
-        document.referrer.length > 0
-          ? document.referrer
-          : undefined;
+      // document.referrer is not updated by client-side navigation, so route
+      // changes within a session are internal regardless of the original referrer
+      sendEvent(
+        "pageview",
+        referrer,
+        isNewSession ? {} : { channel: TRAFFIC_CHANNELS.INTERNAL, referrer_source: undefined }
+      );
+      lastTrackedPath.current = trackedPath;
+      pageviewTracked.current = true;
+    }
 
-      sendEvent("pageview", referrer);
-      lastTrackedPath.current = pathname;
+    // A replaced anonymous id (fingerprint migration, identity cookie) is linked once, like identify()
+    const migration = takeVisitorIdMigration();
+    if (migration) {
+      sendEvent("identify", undefined, { ...migration });
     }
 
     // Set up activity event listeners
     if (typeof window !== "undefined") {
-      const events = [
-        "click",
-        "keydown",
-        "touchstart",
-        "scroll",
-        "wheel",
-        "play",
-        "pause",
-        "seeked",
-        "volumechange",
-        "input",
-        "change",
-        "focus",
-        "copy",
-        "cut",
-        "paste",
-      ];
-
-      events.forEach((event) => {
-        window.addEventListener(event, throttledHandleActivity, {
-          passive: true,
-        });
-      });
+      const removeActivityListeners = addPassiveListeners(
+        ACTIVITY_EVENTS,
+        throttledHandleActivity
+      );
+
+      // Delegated link click capture (opt-in via autoCapture)
+      const autoCaptureConfig = resolveAutoCaptureConfig(autoCaptureRef.current);
+      const removeLinkListeners = autoCaptureConfig
+        ? addPassiveListeners(["click", "auxclick"], (event) => {
+            // Primary clicks and middle-click "open in new tab" only
+            if (event instanceof MouseEvent && event.button > 1) return;
+
+            const anchor = findClickedAnchor(event);
+            if (!anchor) return;
+
+            const linkClick = classifyLinkClick(
+              anchor,
+              window.location.hostname,
+              autoCaptureConfig
+            );
+            if (!linkClick) return;
+
+            sendEvent(
+              linkClick.eventType,
+              undefined,
+              {
+                target_url: linkClick.targetUrl,
+                file_extension: linkClick.fileExtension,
+              },
+              { keepalive: true }
+            );
+          })
+        : undefined;
 
       const handleVisibilityChange = () => {
+        pageEngagement.current.setVisible(!document.hidden);
+
         if (document.hidden) {
           heartbeatEnabled.current = false;
           if (heartbeatInterval.current) {
@@ -503,17 +891,40 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
 
       document.addEventListener("visibilitychange", handleVisibilityChange);
 
+      // The document may be discarded after pagehide, so page_leave must be beacon-safe
+      // Closing the last tab ends the session; activity within the timeout continues it
+      const handlePageHide = () => {
+        sendPageLeave(trackedPath, { keepalive: true });
+
+        const session = getActiveSession();
+        if (session && !tabLeader.current.hasOtherTabs() && claimSessionEnd(session)) {
+          sendSessionEnd(session, SESSION_END_REASONS.UNLOAD, Date.now(), { keepalive: true });
+        }
+      };
+
+      // Restored from the back/forward cache - measure the page view afresh
+      const handlePageShow = (event: PageTransitionEvent) => {
+        if (event.persisted) {
+          pageEngagement.current = new PageEngagement();
+        }
+      };
+
+      window.addEventListener("pagehide", handlePageHide);
+      window.addEventListener("pageshow", handlePageShow);
+      pageEngagement.current.updateScrollDepth();
+
       // Start the dynamic heartbeat system
       scheduleNextHeartbeat();
 
       return () => {
-        events.forEach((event) => {
-          window.removeEventListener(event, throttledHandleActivity);
-        });
+        removeActivityListeners();
+        removeLinkListeners?.();
         document.removeEventListener(
           "visibilitychange",
           handleVisibilityChange
         );
+        window.removeEventListener("pagehide", handlePageHide);
+        window.removeEventListener("pageshow", handlePageShow);
 
         if (heartbeatInterval.current) {
           clearTimeout(heartbeatInterval.current);
@@ -526,13 +937,153 @@ export function VisitorTracker({ username }: VisitorTrackerProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     pathname,
-    username,
+    search,
+    hash,
+    userId,
+    identityReady,
     isBot, // Start the dynamic heartbeat system
+    endTimedOutSession,
     scheduleNextHeartbeat,
     sendEvent,
+    sendPageLeave,
+    sendSessionEnd,
     throttledHandleActivity,
     updateLastActivity,
   ]);
 
-  return null;
+  // Hash navigation (opt-in) - hashchange covers anchors and history.back(), popstate
+  // covers the router's pushState, which never fires hashchange
+  const tracksHash = urlTrackingConfig.hash;
+  useEffect(() => {
+    if (!tracksHash || typeof window === "undefined") return undefined;
+
+    const handleHashChange = () => setHash(window.location.hash);
+    handleHashChange();
+
+    window.addEventListener("hashchange", handleHashChange);
+    window.addEventListener("popstate", handleHashChange);
+    return () => {
+      window.removeEventListener("hashchange", handleHashChange);
+      window.removeEventListener("popstate", handleHashChange);
+    };
+  }, [tracksHash, pathname, search]);
+
+  // Site search (opt-in): one site_search event per term while on the search page
+  const lastSearch = useRef<string | null>(null);
+  const siteSearchEnabled = Boolean(siteSearch);
+  useEffect(() => {
+    const siteSearchConfig = siteSearchRef.current;
+    if (!siteSearchConfig || typeof window === "undefined") return;
+    if (!isTrackingEnabled(configRef.current) || !identityReady || isBot()) return;
+
+    const term = getSearchTerm(pathname, window.location.search, siteSearchConfig);
+    const searchKey = term ? `${pathname}|${term}` : null;
+    if (searchKey === lastSearch.current) return;
+
+    lastSearch.current = searchKey;
+    if (!term) return;
+
+    void resolveResultCount(term, siteSearchConfig).then((resultCount) => {
+      sendEvent("site_search", undefined, {
+        search_term: term,
+        search_result_count: resultCount,
+      });
+    });
+  }, [pathname, search, siteSearchEnabled, identityReady, isBot, sendEvent]);
+
+  // Errors are deduplicated by fingerprint and capped per session before sending
+  const reportError = useCallback(
+    (error: CapturedError) => {
+      const errorTrackingConfig = resolveErrorTrackingConfig(errorTrackingRef.current);
+      if (!errorTrackingConfig || !isTrackingEnabled(configRef.current) || isBot()) return;
+      if (isIgnoredError(error, errorTrackingConfig)) return;
+
+      const sessionId = continueSession();
+      if (!shouldReportError(error, sessionId, errorTrackingConfig)) return;
+
+      sendEvent("error", undefined, getErrorEventFields(error));
+    },
+    [continueSession, isBot, sendEvent]
+  );
+
+  // Capture uncaught errors and unhandled rejections (opt-in via errorTracking)
+  const errorTrackingEnabled = Boolean(errorTracking);
+  useEffect(() => {
+    if (!errorTrackingEnabled || typeof window === "undefined") return undefined;
+    return installErrorListeners(reportError);
+  }, [errorTrackingEnabled, reportError]);
+
+  // Link the current visitor id to a known user id and make it the visitor id from now on
+  const linkVisitor = useCallback(
+    (visitorId: string, traits?: EventProperties) => {
+      if (!isTrackingEnabled(configRef.current) || isBot()) return;
+
+      const previousVisitorId = getIdentifiedUserId() ?? getAnonymousId();
+      setIdentifiedUserId(visitorId);
+
+      sendEvent("identify", undefined, {
+        visitor_id: visitorId,
+        previous_visitor_id: previousVisitorId !== visitorId ? previousVisitorId : undefined,
+        user_traits: traits,
+      });
+    },
+    [isBot, sendEvent]
+  );
+
+  // A username appearing (e.g. after login) stitches the anonymous history to it once
+  useEffect(() => {
+    if (!userId) return;
+
+    if (getIdentifiedUserId() !== userId) {
+      linkVisitor(userId);
+    }
+  }, [userId, linkVisitor]);
+
+  // Expose custom event tracking, identity and error reporting to track() / identify() / captureError() callers
+  // Registered after the page view effect so replayed calls never open the session
+  useEffect(() => {
+    return registerTrackerHandlers({
+      track: (name, properties) => {
+        if (isBot()) return;
+        sendEvent("custom", undefined, {
+          event_name: name,
+          event_properties: properties,
+        });
+      },
+      reportError,
+      identify: (rawUserId, traits) => {
+        if (!pseudonymSalt) {
+          linkVisitor(cleanUserId(rawUserId), traits);
+          return;
+        }
+
+        void pseudonymizeUserId(rawUserId, pseudonymSalt).then((pseudonymizedId) => {
+          if (pseudonymizedId) {
+            linkVisitor(pseudonymizedId, traits);
+          }
+        });
+      },
+      reset: () => {
+        const session = getActiveSession();
+        if (session && !isBot()) {
+          sendSessionEnd(session, SESSION_END_REASONS.RESET, Date.now());
+        }
+
+        resetIdentity();
+        clearSession();
+
+        if (isBot()) return;
+        sendEvent("session_start");
+        sendEvent("pageview");
+      },
+    });
+  }, [isBot, linkVisitor, pseudonymSalt, reportError, sendEvent, sendSessionEnd]);
+
+  if (!tracksSearchParams && !siteSearchEnabled) return null;
+
+  return (
+    <Suspense fallback={null}>
+      <SearchParamsObserver onChange={setSearch} />
+    </Suspense>
+  );
 }